@@ -0,0 +1,39 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextResponse } from 'next/server';
+import { LLM_PROVIDERS, LLMModel, isProviderConfigured, supportsVision } from '@/lib/llm';
+
+// GET /api/models - LLM providers and the models each offers, for the model picker
+export async function GET() {
+    try {
+        const { userId } = await auth();
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const providers = await Promise.all(LLM_PROVIDERS.map(async (provider) => {
+            const configured = isProviderConfigured(provider);
+            const runtimeModels: LLMModel[] = configured && provider.listModels ? await provider.listModels() : [];
+
+            return {
+                id: provider.id,
+                name: provider.name,
+                configured,
+                capabilities: provider.capabilities,
+                models: [...provider.models, ...runtimeModels].map(model => ({
+                    id: model.id,
+                    name: model.name,
+                    vision: model.vision ?? supportsVision(model.id),
+                })),
+            };
+        }));
+
+        return NextResponse.json({ providers });
+    } catch (error) {
+        console.error('Failed to list models:', error);
+        return NextResponse.json(
+            { error: 'Failed to list models' },
+            { status: 500 }
+        );
+    }
+}
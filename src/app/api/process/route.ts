@@ -173,6 +173,14 @@ export async function POST(request: NextRequest) {
 
         const assembly = await response.json();
 
+        // Pass Transloadit's rate limit through so the workflow executor can wait and retry
+        if (assembly.error === 'RATE_LIMIT_REACHED') {
+            return NextResponse.json(
+                { error: assembly.message || 'Transloadit rate limit reached' },
+                { status: 429, headers: { 'Retry-After': String(assembly.info?.retryIn ?? 60) } }
+            );
+        }
+
         if (assembly.error) {
             return NextResponse.json(
                 { error: assembly.message || 'Assembly creation failed' },
@@ -0,0 +1,101 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import prisma from '@/lib/db';
+
+const usageQuerySchema = z.object({
+    // Calendar month in UTC (default: the current one)
+    month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, { error: 'month must look like 2025-01' }).optional(),
+});
+
+// GET /api/usage?month=YYYY-MM - The user's LLM tokens and estimated cost for a month, by model and workflow
+export async function GET(request: NextRequest) {
+    try {
+        const { userId } = await auth();
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { clerkId: userId },
+        });
+
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        const validation = usageQuerySchema.safeParse({
+            month: request.nextUrl.searchParams.get('month') ?? undefined,
+        });
+
+        if (!validation.success) {
+            return NextResponse.json(
+                { error: 'Invalid input', details: validation.error.flatten() },
+                { status: 400 }
+            );
+        }
+
+        const now = new Date();
+        const [year, month] = validation.data.month
+            ? validation.data.month.split('-').map(Number)
+            : [now.getUTCFullYear(), now.getUTCMonth() + 1];
+        const from = new Date(Date.UTC(year, month - 1, 1));
+        const to = new Date(Date.UTC(year, month, 1));
+
+        const runWhere = { userId: user.id, startedAt: { gte: from, lt: to } };
+
+        const [totals, byWorkflow, byModel] = await Promise.all([
+            prisma.workflowRun.aggregate({
+                where: runWhere,
+                _sum: { promptTokens: true, completionTokens: true, cost: true },
+                _count: { _all: true },
+            }),
+            prisma.workflowRun.groupBy({
+                by: ['workflowId'],
+                where: runWhere,
+                _sum: { promptTokens: true, completionTokens: true, cost: true },
+                _count: { _all: true },
+            }),
+            prisma.nodeResult.groupBy({
+                by: ['model'],
+                where: { run: runWhere, model: { not: null } },
+                _sum: { promptTokens: true, completionTokens: true, cost: true },
+            }),
+        ]);
+
+        const workflows = await prisma.workflow.findMany({
+            where: { id: { in: byWorkflow.map(w => w.workflowId) } },
+            select: { id: true, name: true },
+        });
+        const workflowNames = new Map(workflows.map(w => [w.id, w.name]));
+
+        return NextResponse.json({
+            month: `${year}-${String(month).padStart(2, '0')}`,
+            runs: totals._count._all,
+            promptTokens: totals._sum.promptTokens ?? 0,
+            completionTokens: totals._sum.completionTokens ?? 0,
+            cost: totals._sum.cost ?? 0,
+            byModel: byModel.map(m => ({
+                model: m.model,
+                promptTokens: m._sum.promptTokens ?? 0,
+                completionTokens: m._sum.completionTokens ?? 0,
+                cost: m._sum.cost ?? 0,
+            })),
+            byWorkflow: byWorkflow.map(w => ({
+                workflowId: w.workflowId,
+                name: workflowNames.get(w.workflowId) ?? null,
+                runs: w._count._all,
+                promptTokens: w._sum.promptTokens ?? 0,
+                completionTokens: w._sum.completionTokens ?? 0,
+                cost: w._sum.cost ?? 0,
+            })),
+        });
+    } catch (error) {
+        console.error('Failed to fetch usage:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch usage' },
+            { status: 500 }
+        );
+    }
+}
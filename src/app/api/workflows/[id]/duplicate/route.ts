@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import prisma from '@/lib/db';
+import { snapshotWorkflow, toWorkflowGraph } from '@/lib/workflow-versions';
 
 // POST /api/workflows/[id]/duplicate - Duplicate workflow
 export async function POST(
@@ -37,14 +38,25 @@ export async function POST(
         }
 
         // Create duplicate
-        const workflow = await prisma.workflow.create({
-            data: {
-                name: `${original.name} (Copy)`,
-                description: original.description,
-                nodes: original.nodes ?? [],
-                edges: original.edges ?? [],
-                userId: user.id,
-            },
+        const workflow = await prisma.$transaction(async (tx) => {
+            const created = await tx.workflow.create({
+                data: {
+                    name: `${original.name} (Copy)`,
+                    description: original.description,
+                    nodes: original.nodes ?? [],
+                    edges: original.edges ?? [],
+                    userId: user.id,
+                },
+            });
+
+            await snapshotWorkflow(tx, {
+                workflowId: created.id,
+                authorId: user.id,
+                ...toWorkflowGraph(created),
+                message: `Duplicated from ${original.name}`,
+            });
+
+            return created;
         });
 
         return NextResponse.json({ workflow }, { status: 201 });
@@ -1,13 +1,8 @@
 import { auth } from '@clerk/nextjs/server';
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/db';
-import { z } from 'zod';
-
-const updateWorkflowSchema = z.object({
-    name: z.string().optional(),
-    nodes: z.array(z.any()).optional(),
-    edges: z.array(z.any()).optional(),
-});
+import { snapshotWorkflow, toWorkflowGraph } from '@/lib/workflow-versions';
+import { updateWorkflowSchema } from '@/lib/validation/schemas';
 
 export async function GET(
     request: NextRequest,
@@ -79,7 +74,7 @@ async function handleUpdate(
             );
         }
 
-        const { name, nodes, edges } = validation.data;
+        const { name, nodes, edges, message } = validation.data;
 
         // Verify ownership first
         const existing = await prisma.workflow.findFirst({
@@ -95,9 +90,23 @@ async function handleUpdate(
         if (nodes) updateData.nodes = nodes;
         if (edges) updateData.edges = edges;
 
-        const workflow = await prisma.workflow.update({
-            where: { id: params.id },
-            data: updateData,
+        // Graph edits are snapshotted so an earlier version can be restored
+        const workflow = await prisma.$transaction(async (tx) => {
+            const updated = await tx.workflow.update({
+                where: { id: params.id },
+                data: updateData,
+            });
+
+            if (nodes || edges) {
+                await snapshotWorkflow(tx, {
+                    workflowId: params.id,
+                    authorId: user.id,
+                    ...toWorkflowGraph(updated),
+                    message,
+                });
+            }
+
+            return updated;
         });
 
         return NextResponse.json({ workflow });
@@ -0,0 +1,85 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { runs } from '@trigger.dev/sdk/v3';
+import prisma from '@/lib/db';
+import { abortRun } from '@/lib/workflow-engine/cancellation';
+
+interface RouteParams {
+    params: Promise<{ id: string; runId: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+    try {
+        const { userId } = await auth();
+        const { id, runId } = await params;
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { clerkId: userId },
+        });
+
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        // Verify the run belongs to this user and workflow
+        const run = await prisma.workflowRun.findFirst({
+            where: {
+                id: runId,
+                workflowId: id,
+                userId: user.id
+            }
+        });
+
+        if (!run) {
+            return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+        }
+
+        if (run.status !== 'RUNNING') {
+            return NextResponse.json({ error: 'Run is not in progress' }, { status: 409 });
+        }
+
+        // Mark the run first so an executor on another instance stops before its next layer
+        await prisma.workflowRun.update({
+            where: { id: run.id },
+            data: {
+                status: 'CANCELLED',
+                completedAt: new Date(),
+                duration: Date.now() - run.startedAt.getTime(),
+                error: 'Cancelled by user',
+            },
+        });
+
+        // Stop the executor directly if it is running in this process
+        abortRun(run.id);
+
+        // Cancel any Trigger.dev runs still executing for this workflow run
+        const inFlight = await prisma.nodeResult.findMany({
+            where: {
+                runId: run.id,
+                status: 'RUNNING',
+                triggerRunId: { not: null },
+            },
+            select: { triggerRunId: true },
+        });
+
+        await Promise.all(inFlight.map(async ({ triggerRunId }: { triggerRunId: string | null }) => {
+            try {
+                await runs.cancel(triggerRunId!);
+            } catch (error) {
+                console.warn(`Failed to cancel Trigger.dev run ${triggerRunId}:`, error);
+            }
+        }));
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Failed to cancel run:', error);
+        return NextResponse.json(
+            { error: 'Failed to cancel run' },
+            { status: 500 }
+        );
+    }
+}
@@ -6,6 +6,52 @@ interface RouteParams {
     params: Promise<{ id: string; runId: string }>;
 }
 
+// GET /api/workflows/[id]/runs/[runId] - Get a run with live per-node progress
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    try {
+        const { userId } = await auth();
+        const { id, runId } = await params;
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { clerkId: userId },
+        });
+
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        const run = await prisma.workflowRun.findFirst({
+            where: {
+                id: runId,
+                workflowId: id,
+                userId: user.id
+            },
+            include: {
+                nodeResults: {
+                    orderBy: { startedAt: 'asc' },
+                },
+            },
+        });
+
+        if (!run) {
+            return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ run });
+    } catch (error) {
+        console.error('Failed to fetch run:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch run' },
+            { status: 500 }
+        );
+    }
+}
+
+// DELETE /api/workflows/[id]/runs/[runId] - Delete a run
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
     try {
         const { userId } = await auth();
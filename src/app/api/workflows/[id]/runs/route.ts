@@ -35,6 +35,9 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
                 nodeResults: {
                     orderBy: { startedAt: 'asc' },
                 },
+                version: {
+                    select: { version: true },
+                },
             },
         });
 
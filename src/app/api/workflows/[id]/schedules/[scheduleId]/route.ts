@@ -0,0 +1,185 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/db';
+import { updateScheduleSchema } from '@/lib/validation/schemas';
+import { CronError } from '@/lib/workflow-engine/cron';
+import { WorkflowInputError } from '@/lib/workflow-engine/workflow-inputs';
+import { getNextRunAt, getScheduleInputs, getUpcomingRunTimes, validateSchedule } from '@/lib/workflow-engine/scheduler';
+
+interface RouteParams {
+    params: Promise<{ id: string; scheduleId: string }>;
+}
+
+// GET /api/workflows/[id]/schedules/[scheduleId] - Get a schedule and its recent runs
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    try {
+        const { userId } = await auth();
+        const { id, scheduleId } = await params;
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { clerkId: userId },
+        });
+
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        const schedule = await prisma.workflowSchedule.findFirst({
+            where: {
+                id: scheduleId,
+                workflow: { id, userId: user.id },
+            },
+            include: {
+                runs: {
+                    orderBy: { startedAt: 'desc' },
+                    take: 20,
+                    select: {
+                        id: true,
+                        status: true,
+                        startedAt: true,
+                        completedAt: true,
+                        duration: true,
+                        error: true,
+                    },
+                },
+            },
+        });
+
+        if (!schedule) {
+            return NextResponse.json({ error: 'Schedule not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ schedule: { ...schedule, upcoming: getUpcomingRunTimes(schedule) } });
+    } catch (error) {
+        console.error('Failed to fetch schedule:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch schedule' },
+            { status: 500 }
+        );
+    }
+}
+
+// PATCH /api/workflows/[id]/schedules/[scheduleId] - Update a schedule
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+    try {
+        const { userId } = await auth();
+        const { id, scheduleId } = await params;
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { clerkId: userId },
+        });
+
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        const existing = await prisma.workflowSchedule.findFirst({
+            where: {
+                id: scheduleId,
+                workflow: { id, userId: user.id },
+            },
+            include: { workflow: { select: { nodes: true, edges: true } } },
+        });
+
+        if (!existing) {
+            return NextResponse.json({ error: 'Schedule not found' }, { status: 404 });
+        }
+
+        const body = await request.json();
+        const validation = updateScheduleSchema.safeParse(body);
+
+        if (!validation.success) {
+            return NextResponse.json(
+                { error: 'Invalid input', details: validation.error.flatten() },
+                { status: 400 }
+            );
+        }
+
+        const { inputs } = validation.data;
+        const cron = validation.data.cron?.trim() ?? existing.cron;
+        const timezone = validation.data.timezone ?? existing.timezone;
+        const enabled = validation.data.enabled ?? existing.enabled;
+
+        try {
+            validateSchedule(
+                { cron, timezone, inputs: inputs === undefined ? getScheduleInputs(existing.inputs) : inputs },
+                existing.workflow
+            );
+        } catch (error) {
+            if (error instanceof CronError || error instanceof WorkflowInputError) {
+                return NextResponse.json({ error: error.message }, { status: 400 });
+            }
+            throw error;
+        }
+
+        // Only a change to when it runs moves nextRunAt; a pending run stays pending otherwise
+        const timingChanged = cron !== existing.cron || timezone !== existing.timezone || enabled !== existing.enabled;
+
+        const schedule = await prisma.workflowSchedule.update({
+            where: { id: scheduleId },
+            data: {
+                cron,
+                timezone,
+                enabled,
+                ...(inputs !== undefined && { inputs: inputs ?? Prisma.DbNull }),
+                ...(timingChanged && { nextRunAt: enabled ? getNextRunAt(cron, timezone) : null }),
+            },
+        });
+
+        return NextResponse.json({ schedule: { ...schedule, upcoming: getUpcomingRunTimes(schedule) } });
+    } catch (error) {
+        console.error('Failed to update schedule:', error);
+        return NextResponse.json(
+            { error: 'Failed to update schedule' },
+            { status: 500 }
+        );
+    }
+}
+
+// DELETE /api/workflows/[id]/schedules/[scheduleId] - Delete a schedule (its past runs are kept)
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+    try {
+        const { userId } = await auth();
+        const { id, scheduleId } = await params;
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { clerkId: userId },
+        });
+
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        const deleted = await prisma.workflowSchedule.deleteMany({
+            where: {
+                id: scheduleId,
+                workflow: { id, userId: user.id },
+            },
+        });
+
+        if (deleted.count === 0) {
+            return NextResponse.json({ error: 'Schedule not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Failed to delete schedule:', error);
+        return NextResponse.json(
+            { error: 'Failed to delete schedule' },
+            { status: 500 }
+        );
+    }
+}
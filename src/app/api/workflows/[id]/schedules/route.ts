@@ -0,0 +1,147 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { createScheduleSchema } from '@/lib/validation/schemas';
+import { CronError } from '@/lib/workflow-engine/cron';
+import { WorkflowInputError } from '@/lib/workflow-engine/workflow-inputs';
+import { getNextRunAt, getUpcomingRunTimes, validateSchedule } from '@/lib/workflow-engine/scheduler';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+// GET /api/workflows/[id]/schedules - List schedules with their upcoming times, and past scheduled runs
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    try {
+        const { userId } = await auth();
+        const { id } = await params;
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { clerkId: userId },
+        });
+
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        const workflow = await prisma.workflow.findFirst({
+            where: { id, userId: user.id },
+            select: { id: true },
+        });
+
+        if (!workflow) {
+            return NextResponse.json({ error: 'Workflow not found' }, { status: 404 });
+        }
+
+        const schedules = await prisma.workflowSchedule.findMany({
+            where: { workflowId: id },
+            orderBy: { createdAt: 'asc' },
+        });
+
+        const runs = await prisma.workflowRun.findMany({
+            where: { workflowId: id, triggerSource: 'SCHEDULED' },
+            orderBy: { startedAt: 'desc' },
+            take: 20,
+            select: {
+                id: true,
+                status: true,
+                startedAt: true,
+                completedAt: true,
+                duration: true,
+                error: true,
+                scheduleId: true,
+            },
+        });
+
+        return NextResponse.json({
+            schedules: schedules.map(schedule => ({
+                ...schedule,
+                upcoming: getUpcomingRunTimes(schedule),
+            })),
+            runs,
+        });
+    } catch (error) {
+        console.error('Failed to fetch schedules:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch schedules' },
+            { status: 500 }
+        );
+    }
+}
+
+// POST /api/workflows/[id]/schedules - Create a schedule
+export async function POST(request: NextRequest, { params }: RouteParams) {
+    try {
+        const { userId } = await auth();
+        const { id } = await params;
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { clerkId: userId },
+        });
+
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        const workflow = await prisma.workflow.findFirst({
+            where: { id, userId: user.id },
+            select: { id: true, nodes: true, edges: true },
+        });
+
+        if (!workflow) {
+            return NextResponse.json({ error: 'Workflow not found' }, { status: 404 });
+        }
+
+        const body = await request.json();
+        const validation = createScheduleSchema.safeParse(body);
+
+        if (!validation.success) {
+            return NextResponse.json(
+                { error: 'Invalid input', details: validation.error.flatten() },
+                { status: 400 }
+            );
+        }
+
+        const { cron, timezone, inputs, enabled } = validation.data;
+
+        try {
+            validateSchedule({ cron, timezone, inputs }, workflow);
+        } catch (error) {
+            if (error instanceof CronError || error instanceof WorkflowInputError) {
+                return NextResponse.json({ error: error.message }, { status: 400 });
+            }
+            throw error;
+        }
+
+        const schedule = await prisma.workflowSchedule.create({
+            data: {
+                workflowId: id,
+                userId: user.id,
+                cron: cron.trim(),
+                timezone,
+                inputs: inputs ?? undefined,
+                enabled,
+                nextRunAt: enabled ? getNextRunAt(cron, timezone) : null,
+            },
+        });
+
+        return NextResponse.json(
+            { schedule: { ...schedule, upcoming: getUpcomingRunTimes(schedule) } },
+            { status: 201 }
+        );
+    } catch (error) {
+        console.error('Failed to create schedule:', error);
+        return NextResponse.json(
+            { error: 'Failed to create schedule' },
+            { status: 500 }
+        );
+    }
+}
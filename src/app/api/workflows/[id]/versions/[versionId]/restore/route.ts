@@ -0,0 +1,67 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { snapshotWorkflow, toWorkflowGraph } from '@/lib/workflow-versions';
+
+interface RouteParams {
+    params: Promise<{ id: string; versionId: string }>;
+}
+
+// POST /api/workflows/[id]/versions/[versionId]/restore - Make a version's graph current
+export async function POST(request: NextRequest, { params }: RouteParams) {
+    try {
+        const { userId } = await auth();
+        const { id, versionId } = await params;
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { clerkId: userId },
+        });
+
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        const version = await prisma.workflowVersion.findFirst({
+            where: {
+                id: versionId,
+                workflow: { id, userId: user.id },
+            },
+        });
+
+        if (!version) {
+            return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+        }
+
+        // Restoring is itself a save, so it's recorded as a new version
+        const workflow = await prisma.$transaction(async (tx) => {
+            const updated = await tx.workflow.update({
+                where: { id },
+                data: {
+                    nodes: version.nodes ?? [],
+                    edges: version.edges ?? [],
+                },
+            });
+
+            await snapshotWorkflow(tx, {
+                workflowId: id,
+                authorId: user.id,
+                ...toWorkflowGraph(updated),
+                message: `Restored version ${version.version}`,
+            });
+
+            return updated;
+        });
+
+        return NextResponse.json({ workflow });
+    } catch (error) {
+        console.error('Failed to restore version:', error);
+        return NextResponse.json(
+            { error: 'Failed to restore version' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,51 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+
+interface RouteParams {
+    params: Promise<{ id: string; versionId: string }>;
+}
+
+// GET /api/workflows/[id]/versions/[versionId] - Get a version's full graph
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    try {
+        const { userId } = await auth();
+        const { id, versionId } = await params;
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { clerkId: userId },
+        });
+
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        const version = await prisma.workflowVersion.findFirst({
+            where: {
+                id: versionId,
+                workflow: { id, userId: user.id },
+            },
+            include: {
+                author: {
+                    select: { name: true, email: true },
+                },
+            },
+        });
+
+        if (!version) {
+            return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ version });
+    } catch (error) {
+        console.error('Failed to fetch version:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch version' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,67 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { diffWorkflowGraphs, toWorkflowGraph } from '@/lib/workflow-versions';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+// GET /api/workflows/[id]/versions/diff?from=<versionId>&to=<versionId>
+// Compares two versions; without `to` the current workflow graph is used
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    try {
+        const { userId } = await auth();
+        const { id } = await params;
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { clerkId: userId },
+        });
+
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        const from = request.nextUrl.searchParams.get('from');
+        const to = request.nextUrl.searchParams.get('to');
+
+        if (!from) {
+            return NextResponse.json({ error: 'from is required' }, { status: 400 });
+        }
+
+        const workflow = await prisma.workflow.findFirst({
+            where: { id, userId: user.id },
+            select: { nodes: true, edges: true },
+        });
+
+        if (!workflow) {
+            return NextResponse.json({ error: 'Workflow not found' }, { status: 404 });
+        }
+
+        const versions = await prisma.workflowVersion.findMany({
+            where: { workflowId: id, id: { in: to ? [from, to] : [from] } },
+            select: { id: true, nodes: true, edges: true },
+        });
+
+        const fromVersion = versions.find(v => v.id === from);
+        const toVersion = to ? versions.find(v => v.id === to) : workflow;
+
+        if (!fromVersion || !toVersion) {
+            return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+        }
+
+        const diff = diffWorkflowGraphs(toWorkflowGraph(fromVersion), toWorkflowGraph(toVersion));
+
+        return NextResponse.json({ diff });
+    } catch (error) {
+        console.error('Failed to diff versions:', error);
+        return NextResponse.json(
+            { error: 'Failed to diff versions' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,58 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+// GET /api/workflows/[id]/versions - List saved versions, newest first
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    try {
+        const { userId } = await auth();
+        const { id } = await params;
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { clerkId: userId },
+        });
+
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        const workflow = await prisma.workflow.findFirst({
+            where: { id, userId: user.id },
+            select: { id: true },
+        });
+
+        if (!workflow) {
+            return NextResponse.json({ error: 'Workflow not found' }, { status: 404 });
+        }
+
+        const versions = await prisma.workflowVersion.findMany({
+            where: { workflowId: id },
+            orderBy: { version: 'desc' },
+            select: {
+                id: true,
+                version: true,
+                message: true,
+                createdAt: true,
+                author: {
+                    select: { name: true, email: true },
+                },
+            },
+        });
+
+        return NextResponse.json({ versions });
+    } catch (error) {
+        console.error('Failed to fetch versions:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch versions' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,55 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { Node, Edge } from '@xyflow/react';
+import { nodeSchema, edgeSchema } from '@/lib/validation/schemas';
+import { WorkflowNodeData } from '@/types/nodes';
+import { createWorkflowExport, WorkflowFileError } from '@/lib/workflow-export';
+import { bundleWorkflowAssets } from '@/lib/workflow-bundle';
+
+const bundleWorkflowSchema = z.object({
+    name: z.string(),
+    nodes: z.array(nodeSchema),
+    edges: z.array(edgeSchema),
+});
+
+// POST /api/workflows/bundle - Export a graph with its uploaded media embedded
+export async function POST(request: NextRequest) {
+    try {
+        const { userId } = await auth();
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const body = await request.json();
+        const validation = bundleWorkflowSchema.safeParse(body);
+
+        if (!validation.success) {
+            return NextResponse.json(
+                { error: 'Invalid input', details: validation.error.flatten() },
+                { status: 400 }
+            );
+        }
+
+        try {
+            const bundle = await bundleWorkflowAssets(createWorkflowExport({
+                name: validation.data.name,
+                nodes: validation.data.nodes as Node<WorkflowNodeData>[],
+                edges: validation.data.edges as Edge[],
+            }));
+            return NextResponse.json(bundle);
+        } catch (error) {
+            if (error instanceof WorkflowFileError) {
+                return NextResponse.json({ error: error.message }, { status: 422 });
+            }
+            throw error;
+        }
+    } catch (error) {
+        console.error('Failed to bundle workflow:', error);
+        return NextResponse.json(
+            { error: 'Failed to bundle workflow' },
+            { status: 500 }
+        );
+    }
+}
@@ -1,126 +1,51 @@
 import { auth } from '@clerk/nextjs/server';
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import prisma from '@/lib/db';
-import { topologicalSort, getConnectedInputs } from '@/lib/workflow-engine/validation';
 import { Node, Edge } from '@xyflow/react';
-import { tasks, runs } from '@trigger.dev/sdk/v3';
+import prisma from '@/lib/db';
+import { nodeSchema, edgeSchema } from '@/lib/validation/schemas';
+import { WorkflowNodeData } from '@/types/nodes';
+import { WorkflowExecutor, selectNodesInScope } from '@/lib/workflow-engine/executor';
+import { describeBlockingIssues, getBlockingIssues } from '@/lib/workflow-engine/validation';
+import { startBackgroundRun } from '@/lib/workflow-engine/background';
+import { applyWorkflowInputs, WorkflowInputError } from '@/lib/workflow-engine/workflow-inputs';
+import { resolveRunVersion } from '@/lib/workflow-versions';
+import {
+    ExecutionEvent,
+    EXECUTION_STREAM_CONTENT_TYPE,
+    encodeExecutionEvent,
+} from '@/lib/workflow-engine/events';
 
 const executeWorkflowSchema = z.object({
     workflowId: z.string(),
-    nodes: z.array(z.any()),
-    edges: z.array(z.any()),
-    scope: z.enum(['FULL', 'PARTIAL', 'SINGLE']),
+    nodes: z.array(nodeSchema),
+    edges: z.array(edgeSchema),
+    scope: z.enum(['FULL', 'PARTIAL', 'SINGLE', 'FROM_NODE']),
     nodeIds: z.array(z.string()).optional(),
+    // Values for the workflow's declared inputs, by input name (this run only)
+    inputs: z.record(z.string(), z.string()).optional(),
+    // FROM_NODE runs: run to take upstream outputs from (default: latest finished run)
+    sourceRunId: z.string().optional(),
+    failurePolicy: z.enum(['CONTINUE', 'STOP_ALL', 'SKIP_DEPENDENTS']).optional(),
+    // Ignore cached node outputs and execute every node
+    forceRerun: z.boolean().optional(),
+    // Caps on concurrently executing nodes and per-provider requests
+    concurrency: z.object({
+        maxParallel: z.number().int().min(1).optional(),
+        maxItemParallel: z.number().int().min(1).optional(),
+        providers: z.object({
+            groq: z.number().int().min(1),
+            gemini: z.number().int().min(1),
+            'openai-compatible': z.number().int().min(1),
+            transloadit: z.number().int().min(1),
+        }).partial().optional(),
+    }).optional(),
+    // Stream NDJSON progress events instead of a single JSON response
+    stream: z.boolean().optional(),
+    // Return the runId immediately and execute in the background
+    async: z.boolean().optional(),
 });
 
-// Only skip Trigger.dev if explicitly disabled via env var
-// When using Trigger.dev in production, tasks must be deployed via:
-//   npx trigger.dev@latest deploy --env production
-function shouldSkipTriggerDev(): boolean {
-    return process.env.SKIP_TRIGGER_DEV === 'true';
-}
-
-// Smart URL detection: prefers explicit env var, then Vercel auto-set var, then localhost
-function getBaseUrl(): string {
-    if (process.env.NEXT_PUBLIC_APP_URL) return process.env.NEXT_PUBLIC_APP_URL;
-    if (process.env.VERCEL_URL) return `https://${process.env.VERCEL_URL}`;
-    return 'http://localhost:3000';
-}
-
-// ────────────────────────────────────────────────────────────────
-// Dynamic image dimension probe (zero dependencies)
-// Fetches the image binary and parses the format header to extract
-// width × height.  Supports PNG, JPEG, WebP (VP8/VP8L/VP8X), GIF, BMP.
-// ────────────────────────────────────────────────────────────────
-async function probeImageDimensions(
-    url: string
-): Promise<{ width: number; height: number } | null> {
-    try {
-        console.log(`[probeImageDimensions] Fetching ${url.substring(0, 80)}…`);
-        const response = await fetch(url);
-        if (!response.ok) return null;
-        const buffer = Buffer.from(await response.arrayBuffer());
-        if (buffer.length < 30) return null;
-
-        // PNG — 8-byte magic + IHDR chunk at bytes 16..23
-        if (buffer[0] === 0x89 && buffer[1] === 0x50 && buffer[2] === 0x4e && buffer[3] === 0x47) {
-            const w = buffer.readUInt32BE(16);
-            const h = buffer.readUInt32BE(20);
-            console.log(`[probeImageDimensions] PNG ${w}×${h}`);
-            return { width: w, height: h };
-        }
-
-        // GIF — "GIF87a" or "GIF89a"
-        if (buffer[0] === 0x47 && buffer[1] === 0x49 && buffer[2] === 0x46) {
-            const w = buffer.readUInt16LE(6);
-            const h = buffer.readUInt16LE(8);
-            console.log(`[probeImageDimensions] GIF ${w}×${h}`);
-            return { width: w, height: h };
-        }
-
-        // JPEG — scan for SOF0 (0xC0) or SOF2 (0xC2) marker
-        if (buffer[0] === 0xff && buffer[1] === 0xd8) {
-            let offset = 2;
-            while (offset < buffer.length - 9) {
-                if (buffer[offset] !== 0xff) { offset++; continue; }
-                const marker = buffer[offset + 1];
-                if (marker === 0xc0 || marker === 0xc2) {
-                    const h = buffer.readUInt16BE(offset + 5);
-                    const w = buffer.readUInt16BE(offset + 7);
-                    console.log(`[probeImageDimensions] JPEG ${w}×${h}`);
-                    return { width: w, height: h };
-                }
-                // skip segment
-                if (marker === 0xd9) break;               // EOI
-                if (marker >= 0xd0 && marker <= 0xd7) {    // RSTn (no length)
-                    offset += 2; continue;
-                }
-                const segLen = buffer.readUInt16BE(offset + 2);
-                offset += 2 + segLen;
-            }
-        }
-
-        // WebP — RIFF....WEBP container
-        if (buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
-            const fourCC = buffer.toString('ascii', 12, 16);
-            if (fourCC === 'VP8 ' && buffer.length >= 30) {
-                const w = buffer.readUInt16LE(26) & 0x3fff;
-                const h = buffer.readUInt16LE(28) & 0x3fff;
-                console.log(`[probeImageDimensions] WebP-VP8 ${w}×${h}`);
-                return { width: w, height: h };
-            }
-            if (fourCC === 'VP8L' && buffer.length >= 25) {
-                const bits = buffer.readUInt32LE(21);
-                const w = (bits & 0x3fff) + 1;
-                const h = ((bits >> 14) & 0x3fff) + 1;
-                console.log(`[probeImageDimensions] WebP-VP8L ${w}×${h}`);
-                return { width: w, height: h };
-            }
-            if (fourCC === 'VP8X' && buffer.length >= 30) {
-                const w = 1 + (buffer[24] | (buffer[25] << 8) | (buffer[26] << 16));
-                const h = 1 + (buffer[27] | (buffer[28] << 8) | (buffer[29] << 16));
-                console.log(`[probeImageDimensions] WebP-VP8X ${w}×${h}`);
-                return { width: w, height: h };
-            }
-        }
-
-        // BMP
-        if (buffer[0] === 0x42 && buffer[1] === 0x4d && buffer.length >= 26) {
-            const w = buffer.readInt32LE(18);
-            const h = Math.abs(buffer.readInt32LE(22));
-            console.log(`[probeImageDimensions] BMP ${w}×${h}`);
-            return { width: w, height: h };
-        }
-
-        console.warn('[probeImageDimensions] Unknown image format');
-        return null;
-    } catch (error) {
-        console.error('[probeImageDimensions] Probe failed:', error);
-        return null;
-    }
-}
-
 export async function POST(request: NextRequest) {
     try {
         const { userId } = await auth();
@@ -147,30 +72,77 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const { workflowId, nodes, edges, scope, nodeIds } = validation.data;
+        const {
+            workflowId,
+            scope,
+            nodeIds,
+            failurePolicy,
+            forceRerun,
+            concurrency,
+            inputs,
+            stream,
+            async: runInBackground,
+        } = validation.data;
+
+        // Runs and versions are only ever recorded on the caller's own workflows
+        if (workflowId && workflowId !== 'temp') {
+            const workflow = await prisma.workflow.findFirst({
+                where: { id: workflowId, userId: user.id },
+                select: { id: true },
+            });
 
-        // Determine which nodes to execute
-        let nodesToExecute: Node[] = nodes;
-        if (scope !== 'FULL' && nodeIds && nodeIds.length > 0) {
-            // For SINGLE scope, include all upstream dependencies
-            // so processing nodes (crop, extract frame) execute before the target node
-            const allNodeIds = new Set<string>(nodeIds);
+            if (!workflow) {
+                return NextResponse.json({ error: 'Workflow not found' }, { status: 404 });
+            }
+        }
 
-            if (scope === 'SINGLE') {
-                // BFS backwards through edges to find all upstream dependencies
-                const queue = [...nodeIds];
-                while (queue.length > 0) {
-                    const currentId = queue.shift()!;
-                    edges.forEach((edge: Edge) => {
-                        if (edge.target === currentId && !allNodeIds.has(edge.source)) {
-                            allNodeIds.add(edge.source);
-                            queue.push(edge.source);
-                        }
-                    });
+        const workflowNodes = validation.data.nodes as Node<WorkflowNodeData>[];
+        const edges = validation.data.edges as Edge[];
+
+        let nodes = workflowNodes;
+        if (inputs) {
+            try {
+                nodes = applyWorkflowInputs(workflowNodes, inputs);
+            } catch (error) {
+                if (error instanceof WorkflowInputError) {
+                    return NextResponse.json({ error: error.message }, { status: 400 });
                 }
+                throw error;
+            }
+        }
+
+        let sourceRunId: string | undefined;
+        if (scope === 'FROM_NODE') {
+            if (!nodeIds?.length) {
+                return NextResponse.json({ error: 'nodeIds is required for FROM_NODE runs' }, { status: 400 });
             }
 
-            nodesToExecute = nodes.filter((n: Node) => allNodeIds.has(n.id));
+            // Upstream outputs come from a previous run of this workflow
+            const sourceRun = await prisma.workflowRun.findFirst({
+                where: validation.data.sourceRunId
+                    ? { id: validation.data.sourceRunId, workflowId, userId: user.id }
+                    : { workflowId, userId: user.id, status: { not: 'RUNNING' } },
+                orderBy: { startedAt: 'desc' },
+                select: { id: true },
+            });
+
+            if (!sourceRun) {
+                return NextResponse.json({ error: 'No previous run to re-run from' }, { status: 404 });
+            }
+            sourceRunId = sourceRun.id;
+        }
+
+        // Same check the editor makes before starting a run, for every client
+        const blocking = getBlockingIssues(
+            nodes,
+            edges,
+            selectNodesInScope(nodes, edges, scope, nodeIds).map(n => n.id)
+        );
+        if (blocking.length > 0) {
+            return NextResponse.json(
+                { error: describeBlockingIssues(blocking, nodes), issues: blocking },
+                { status: 400 }
+            );
         }
 
         // Resolve a valid workflow ID (Prisma requires a real FK)
@@ -180,7 +152,7 @@ export async function POST(request: NextRequest) {
             const tempWorkflow = await prisma.workflow.create({
                 data: {
                     name: 'Untitled Workflow',
-                    nodes: nodes as object,
+                    nodes: workflowNodes as object,
                     edges: edges as object,
                     userId: user.id,
                 },
@@ -188,230 +160,82 @@ export async function POST(request: NextRequest) {
             resolvedWorkflowId = tempWorkflow.id;
         }
 
-        // Create workflow run record
-        const run = await prisma.workflowRun.create({
-            data: {
-                workflowId: resolvedWorkflowId,
-                userId: user.id,
-                scope,
-                status: 'RUNNING',
-            },
-        });
-
-        const startTime = Date.now();
-
-        // Get execution layers
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const executionLayers = topologicalSort(nodesToExecute as any, edges);
-
-        // Store outputs for reference
-        const nodeOutputs = new Map<string, unknown>();
-        const results: Array<{
-            nodeId: string;
-            status: 'SUCCESS' | 'FAILED';
-            output?: unknown;
-            error?: string;
-            duration: number;
-        }> = [];
-
-        // Per-layer timing info — lets the client replay accurate pulsation
-        const layerResults: Array<{
-            layer: number;
-            nodeIds: string[];
-            duration: number; // how long this layer actually took on the server
-        }> = [];
-
-        // Initialize outputs from existing node data
-        nodes.forEach((node: Node) => {
-            if (node.data?.output !== undefined) {
-                nodeOutputs.set(node.id, node.data.output);
-            }
+        // Record the graph as edited, before workflow input values are applied
+        const versionId = await resolveRunVersion({
+            workflowId: resolvedWorkflowId,
+            authorId: user.id,
+            nodes: workflowNodes,
+            edges,
         });
 
-        // Execute layer by layer (nodes within each layer run in parallel)
-        for (let layerIdx = 0; layerIdx < executionLayers.length; layerIdx++) {
-            const layer = executionLayers[layerIdx];
-            const layerStartTime = Date.now();
-
-            const layerPromises = layer.map(async (nodeId) => {
-                const node = nodes.find((n: Node) => n.id === nodeId);
-                if (!node) return;
+        const executor = new WorkflowExecutor(nodes, edges, resolvedWorkflowId, user.id);
 
-                const nodeStartTime = Date.now();
-
-                // Create node result record
-                const nodeResult = await prisma.nodeResult.create({
-                    data: {
-                        runId: run.id,
-                        nodeId: node.id,
-                        nodeType: node.type || 'unknown',
-                        status: 'RUNNING',
-                        startedAt: new Date(),
-                    },
-                });
+        if (runInBackground) {
+            // Progress is read back through GET /api/workflows/[id]/runs/[runId]
+            const runId = await executor.createRun(scope, { failurePolicy, sourceRunId, inputs, versionId });
+            await startBackgroundRun({
+                runId,
+                workflowId: resolvedWorkflowId,
+                userId: user.id,
+                nodes,
+                edges,
+                scope,
+                nodeIds,
+                sourceRunId,
+                failurePolicy,
+                forceRerun,
+                concurrency,
+            });
 
-                try {
-                    // Gather inputs from connected nodes
-                    const inputs = getConnectedInputs(node.id, nodes, edges);
+            return NextResponse.json(
+                { runId, workflowId: resolvedWorkflowId, status: 'RUNNING' },
+                { status: 202 }
+            );
+        }
 
-                    // Override with actual outputs from executed nodes
-                    edges.forEach((edge: Edge) => {
-                        if (edge.target === node.id && edge.targetHandle) {
-                            const output = nodeOutputs.get(edge.source);
-                            if (output !== undefined) {
-                                if (edge.targetHandle === 'images') {
-                                    const currentImages = (inputs['images'] as string[]) || [];
-                                    if (typeof output === 'string') {
-                                        currentImages.push(output);
-                                    }
-                                    inputs['images'] = currentImages;
-                                } else {
-                                    inputs[edge.targetHandle] = output;
-                                }
-                            }
+        if (stream) {
+            // Stream node-started / node-completed / node-failed events as they happen
+            const encoder = new TextEncoder();
+            const body = new ReadableStream<Uint8Array>({
+                async start(controller) {
+                    const emit = (event: ExecutionEvent) => {
+                        try {
+                            controller.enqueue(encoder.encode(encodeExecutionEvent(event)));
+                        } catch {
+                            // Client went away — keep executing so the run still completes in the DB
+                        }
+                    };
+
+                    try {
+                        await executor.execute(scope, { nodeIds, sourceRunId, failurePolicy, forceRerun, concurrency, inputs, versionId, onEvent: emit });
+                    } catch (error) {
+                        console.error('Failed to execute workflow:', error);
+                        emit({
+                            type: 'run-failed',
+                            error: error instanceof Error ? error.message : 'Failed to execute workflow',
+                        });
+                    } finally {
+                        try {
+                            controller.close();
+                        } catch {
+                            // Already closed by a disconnected client
                         }
-                    });
-
-                    console.log(`[Execute] Node ${node.id} (${node.type}) inputs:`, JSON.stringify(inputs, null, 2));
-
-                    // Execute based on node type
-                    let output: unknown;
-
-                    switch (node.type) {
-                        case 'text':
-                            output = node.data?.text || '';
-                            break;
-
-                        case 'uploadImage':
-                            output = node.data?.imageUrl || '';
-                            if (!output) throw new Error('No image uploaded');
-                            if (typeof output === 'string' && output.startsWith('blob:')) {
-                                throw new Error('Image upload incomplete: The image was not uploaded to the server. Please re-upload the image before running the workflow.');
-                            }
-                            if (typeof output === 'string' && output.startsWith('/')) {
-                                output = `${getBaseUrl()}${output}`;
-                            }
-                            break;
-
-                        case 'uploadVideo':
-                            output = node.data?.output || node.data?.videoUrl || '';
-                            if (!output) throw new Error('No video uploaded');
-                            if (typeof output === 'string' && output.startsWith('blob:')) {
-                                throw new Error('Video upload incomplete: The video was not uploaded to the server. Please re-upload the video before running the workflow.');
-                            }
-                            if (typeof output === 'string' && output.startsWith('/')) {
-                                output = `${getBaseUrl()}${output}`;
-                            }
-                            break;
-
-                        case 'llm':
-                            if (shouldSkipTriggerDev()) {
-                                output = await executeLLM(node, inputs);
-                            } else {
-                                output = await executeLLMViaTrigger(node, inputs, run.id);
-                            }
-                            break;
-
-                        case 'cropImage':
-                            if (shouldSkipTriggerDev()) {
-                                output = await executeCropImage(node, inputs);
-                            } else {
-                                output = await executeCropImageViaTrigger(node, inputs, run.id);
-                            }
-                            break;
-
-                        case 'extractFrame':
-                            if (shouldSkipTriggerDev()) {
-                                output = await executeExtractFrame(node, inputs);
-                            } else {
-                                output = await executeExtractFrameViaTrigger(node, inputs, run.id);
-                            }
-                            break;
-
-                        default:
-                            output = node.data?.output;
                     }
-
-                    // Store output
-                    nodeOutputs.set(node.id, output);
-                    const duration = Date.now() - nodeStartTime;
-
-                    // Update DB
-                    await prisma.nodeResult.update({
-                        where: { id: nodeResult.id },
-                        data: {
-                            status: 'SUCCESS',
-                            input: inputs as object,
-                            output: (typeof output === 'object' ? output : { value: output }) as object,
-                            completedAt: new Date(),
-                            duration,
-                        },
-                    });
-
-                    results.push({
-                        nodeId: node.id,
-                        status: 'SUCCESS',
-                        output,
-                        duration,
-                    });
-
-                } catch (error) {
-                    const duration = Date.now() - nodeStartTime;
-                    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-
-                    await prisma.nodeResult.update({
-                        where: { id: nodeResult.id },
-                        data: {
-                            status: 'FAILED',
-                            error: errorMessage,
-                            completedAt: new Date(),
-                            duration,
-                        },
-                    });
-
-                    results.push({
-                        nodeId: node.id,
-                        status: 'FAILED',
-                        error: errorMessage,
-                        duration,
-                    });
-                }
+                },
             });
 
-            await Promise.all(layerPromises);
-
-            // Record per-layer timing
-            layerResults.push({
-                layer: layerIdx,
-                nodeIds: layer,
-                duration: Date.now() - layerStartTime,
+            return new Response(body, {
+                headers: {
+                    'Content-Type': EXECUTION_STREAM_CONTENT_TYPE,
+                    'Cache-Control': 'no-cache, no-transform',
+                    'X-Accel-Buffering': 'no',
+                },
             });
         }
 
-        // Determine final status
-        const hasFailures = results.some(r => r.status === 'FAILED');
-        const allSuccessful = results.every(r => r.status === 'SUCCESS');
-        const finalStatus = allSuccessful ? 'SUCCESS' : hasFailures ? 'PARTIAL' : 'SUCCESS';
-        const totalDuration = Date.now() - startTime;
+        const summary = await executor.execute(scope, { nodeIds, sourceRunId, failurePolicy, forceRerun, concurrency, inputs, versionId });
 
-        // Update run record
-        await prisma.workflowRun.update({
-            where: { id: run.id },
-            data: {
-                status: finalStatus,
-                completedAt: new Date(),
-                duration: totalDuration,
-            },
-        });
-
-        return NextResponse.json({
-            runId: run.id,
-            workflowId: resolvedWorkflowId,
-            status: finalStatus,
-            results,
-            layerResults, // per-layer timing for accurate client-side pulsation replay
-            duration: totalDuration,
-        });
+        return NextResponse.json(summary);
 
     } catch (error) {
         console.error('Failed to execute workflow:', error);
@@ -421,500 +245,3 @@ export async function POST(request: NextRequest) {
         );
     }
 }
-
-// ============================================
-// TRIGGER.DEV WRAPPER FUNCTIONS
-// These use tasks.triggerAndPoll to run via Trigger.dev
-// ============================================
-
-// Helper: Poll with a timeout to avoid Vercel serverless function timeouts
-// Defaults to 120s which is safely under Vercel's 300s limit
-async function pollWithTimeout(runId: string, timeoutMs: number = 120000) {
-    const result = await Promise.race([
-        runs.poll(runId, { pollIntervalMs: 1000 }),
-        new Promise<never>((_, reject) =>
-            setTimeout(() => reject(new Error(`Trigger.dev task timed out after ${timeoutMs / 1000}s`)), timeoutMs)
-        ),
-    ]);
-    return result;
-}
-
-async function executeLLMViaTrigger(
-    node: Node,
-    inputs: Record<string, unknown>,
-    runId: string
-): Promise<string> {
-    const userMessage = (inputs['user_message'] as string) || (node.data as { userMessage?: string })?.userMessage;
-    if (!userMessage) {
-        throw new Error('User message is required');
-    }
-
-    const systemPrompt = (inputs['system_prompt'] as string) || (node.data as { systemPrompt?: string })?.systemPrompt || '';
-    const images = (inputs['images'] as string[]) || [];
-
-    // Combine system prompt and user message into a single prompt (matches trigger task schema)
-    const prompt = [
-        systemPrompt ? `System: ${systemPrompt}` : '',
-        userMessage,
-    ].filter(Boolean).join('\n\n');
-
-    const payload = {
-        prompt,
-        model: (node.data as { model?: string })?.model || 'groq:meta-llama/llama-4-scout-17b-16e-instruct',
-        images,
-    };
-
-    try {
-        // Trigger the task (fire it off to Trigger.dev)
-        const handle = await tasks.trigger('llm-execution', payload);
-        console.log('[Trigger.dev] LLM task triggered, run ID:', handle.id);
-
-        // Poll for result with timeout to prevent Vercel function timeout
-        const completed = await pollWithTimeout(handle.id);
-
-        if (completed.status === 'COMPLETED') {
-            return (completed.output as any)?.text || (completed.output as any)?.response || '';
-        } else {
-            throw new Error(`LLM task failed with status: ${completed.status}`);
-        }
-    } catch (error) {
-        // Fallback to direct execution if Trigger.dev is unavailable
-        console.warn('Trigger.dev unavailable, falling back to direct execution:', error);
-        return executeLLM(node, inputs);
-    }
-}
-
-async function executeCropImageViaTrigger(
-    node: Node,
-    inputs: Record<string, unknown>,
-    runId: string
-): Promise<string> {
-    const imageUrl = inputs['image_url'] as string;
-    if (!imageUrl) {
-        throw new Error('Image URL is required');
-    }
-
-    // Check for blob: URLs - Transloadit cannot access browser-only URLs
-    if (imageUrl.startsWith('blob:')) {
-        console.warn('[Crop] blob: URL detected, returning original');
-        return imageUrl;
-    }
-
-    // Read crop parameters from node data (set via dynamic UI inputs on the node)
-    const data = node.data as {
-        xPercent?: number;
-        yPercent?: number;
-        widthPercent?: number;
-        heightPercent?: number;
-    };
-
-    const xPercent = data.xPercent ?? 0;
-    const yPercent = data.yPercent ?? 0;
-    const widthPercent = data.widthPercent ?? 100;
-    const heightPercent = data.heightPercent ?? 100;
-
-    console.log(`[Crop] Params from node data: x=${xPercent}%, y=${yPercent}%, w=${widthPercent}%, h=${heightPercent}%`);
-
-    // For Trigger.dev crop task, compute pixel values from actual image dimensions
-    // First try to read dimensions stored by the CropImageNode UI
-    let sourceW = (data as any).sourceWidth || (data as any).sourceW || 0;
-    let sourceH = (data as any).sourceHeight || (data as any).sourceH || 0;
-
-    // If the frontend didn't store dimensions, dynamically probe the image
-    if (!sourceW || !sourceH) {
-        console.log('[Crop/Trigger] sourceWidth/sourceHeight not in node data — probing image dynamically…');
-        const probed = await probeImageDimensions(imageUrl);
-        if (probed) {
-            sourceW = probed.width;
-            sourceH = probed.height;
-        } else {
-            throw new Error('Unable to determine image dimensions for crop. The image URL may be inaccessible.');
-        }
-    }
-
-    const x = Math.round((xPercent / 100) * sourceW);
-    const y = Math.round((yPercent / 100) * sourceH);
-    const width = Math.round((widthPercent / 100) * sourceW);
-    const height = Math.round((heightPercent / 100) * sourceH);
-    console.log(`[Crop/Trigger] Source: ${sourceW}x${sourceH}, pixel crop: x=${x}, y=${y}, w=${width}, h=${height}`);
-
-    const payload = {
-        imageUrl,
-        x,
-        y,
-        width: Math.min(width, sourceW),
-        height: Math.min(height, sourceH),
-    };
-
-    try {
-        const handle = await tasks.trigger('crop-image', payload);
-        console.log('[Trigger.dev] Crop task triggered, run ID:', handle.id);
-
-        const completed = await pollWithTimeout(handle.id);
-
-        if (completed.status === 'COMPLETED') {
-            return (completed.output as any)?.imageUrl || '';
-        } else {
-            throw new Error(`Crop image task failed with status: ${completed.status}`);
-        }
-    } catch (error) {
-        console.warn('Trigger.dev unavailable, falling back to direct execution:', error);
-        return executeCropImage(node, inputs);
-    }
-}
-
-async function executeExtractFrameViaTrigger(
-    node: Node,
-    inputs: Record<string, unknown>,
-    runId: string
-): Promise<string> {
-    const videoUrl = inputs['video_url'] as string;
-    if (!videoUrl) {
-        throw new Error('Video URL is required');
-    }
-
-    // Guard against blob: URLs which cannot be accessed by the server
-    if (videoUrl.startsWith('blob:')) {
-        throw new Error('Video upload incomplete: The video URL is a local blob. Please re-upload the video before running the workflow.');
-    }
-
-    // Parse timestamp
-    const timestampStr = (inputs['timestamp'] ?? (node.data as { timestamp?: string })?.timestamp ?? '0') as string;
-    let timestampSeconds = 0;
-    let usePercentageFallback = false;
-
-    if (timestampStr.includes('%')) {
-        const pct = parseFloat(timestampStr) / 100;
-        const videoDuration = (node.data as any).videoDuration || (node.data as any).duration || 0;
-        if (videoDuration > 0) {
-            timestampSeconds = Math.round(pct * videoDuration);
-            console.log(`[Frame/Trigger] % timestamp: ${timestampStr} → ${timestampSeconds}s (duration=${videoDuration}s)`);
-        } else {
-            // No duration available — use percentage-based Transloadit count approach via direct execution
-            console.log(`[Frame/Trigger] % timestamp with no duration — falling back to count-based extraction`);
-            usePercentageFallback = true;
-        }
-    } else if (timestampStr.includes(':')) {
-        const parts = timestampStr.split(':').map(Number);
-        if (parts.length === 3) {
-            timestampSeconds = parts[0] * 3600 + parts[1] * 60 + parts[2];
-        } else if (parts.length === 2) {
-            timestampSeconds = parts[0] * 60 + parts[1];
-        }
-    } else {
-        timestampSeconds = parseFloat(timestampStr) || 0;
-    }
-
-    // If we can't resolve seconds, use the direct path with count-based percentage
-    if (usePercentageFallback) {
-        return executeExtractFrame(node, inputs);
-    }
-
-    const payload = {
-        videoUrl,
-        timestamp: timestampSeconds,
-    };
-
-    try {
-        const handle = await tasks.trigger('extract-frame', payload);
-        console.log('[Trigger.dev] Extract frame task triggered, run ID:', handle.id);
-
-        const completed = await pollWithTimeout(handle.id);
-
-        if (completed.status === 'COMPLETED') {
-            return (completed.output as any)?.frameUrl || '';
-        } else {
-            throw new Error(`Extract frame task failed with status: ${completed.status}`);
-        }
-    } catch (error) {
-        console.warn('Trigger.dev unavailable, falling back to direct execution:', error);
-        return executeExtractFrame(node, inputs);
-    }
-}
-
-// ============================================
-// FALLBACK DIRECT EXECUTION FUNCTIONS
-// Used when Trigger.dev is unavailable
-// ============================================
-
-// LLM execution - supports both Gemini and Groq models
-async function executeLLM(node: Node, inputs: Record<string, unknown>): Promise<string> {
-    console.log('[executeLLM] Starting direct LLM execution');
-
-    const modelId = (node.data as { model?: string })?.model || 'groq:meta-llama/llama-4-scout-17b-16e-instruct';
-    console.log('[executeLLM] Using model:', modelId);
-
-    const systemPrompt = (inputs['system_prompt'] as string) || (node.data as { systemPrompt?: string })?.systemPrompt || '';
-    const userMessage = (inputs['user_message'] as string) || (node.data as { userMessage?: string })?.userMessage;
-    if (!userMessage) {
-        throw new Error('User message is required');
-    }
-
-    const images = (inputs['images'] as string[]) || [];
-    console.log('[executeLLM] Images count:', images.length);
-
-    // Route to Groq or Gemini based on model ID prefix
-    if (modelId.startsWith('groq:')) {
-        return executeLLMViaGroq(modelId.replace('groq:', ''), systemPrompt, userMessage, images);
-    } else {
-        return executeLLMViaGemini(modelId, systemPrompt, userMessage, images);
-    }
-}
-
-// Groq LLM execution
-async function executeLLMViaGroq(
-    modelId: string,
-    systemPrompt: string,
-    userMessage: string,
-    images: string[]
-): Promise<string> {
-    const Groq = (await import('groq-sdk')).default;
-
-    const apiKey = process.env.GROQ_API_KEY;
-    if (!apiKey) {
-        throw new Error('Groq API key not configured (GROQ_API_KEY)');
-    }
-
-    const groq = new Groq({ apiKey });
-
-    const messages: Array<{ role: 'system' | 'user'; content: string | Array<{ type: string; text?: string; image_url?: { url: string } }> }> = [];
-
-    if (systemPrompt) {
-        messages.push({ role: 'system', content: systemPrompt });
-    }
-
-    // Build user message with optional images
-    if (images.length > 0) {
-        const contentParts: Array<{ type: string; text?: string; image_url?: { url: string } }> = [
-            { type: 'text', text: userMessage },
-        ];
-
-        for (const imageUrl of images) {
-            if (imageUrl.startsWith('blob:')) continue;
-
-            try {
-                let base64Url = imageUrl;
-                // If it's a URL, fetch and convert to base64
-                if (imageUrl.startsWith('http://') || imageUrl.startsWith('https://')) {
-                    const response = await fetch(imageUrl);
-                    if (!response.ok) continue;
-                    const buffer = await response.arrayBuffer();
-                    const base64 = Buffer.from(buffer).toString('base64');
-                    const mimeType = response.headers.get('content-type') || 'image/jpeg';
-                    base64Url = `data:${mimeType};base64,${base64}`;
-                }
-                contentParts.push({ type: 'image_url', image_url: { url: base64Url } });
-            } catch (error) {
-                console.warn('[executeLLM] Failed to process image for Groq:', error);
-            }
-        }
-
-        messages.push({ role: 'user', content: contentParts });
-    } else {
-        messages.push({ role: 'user', content: userMessage });
-    }
-
-    console.log('[executeLLM] Calling Groq API with model:', modelId);
-    const startTime = Date.now();
-
-    const completion = await groq.chat.completions.create({
-        model: modelId,
-        messages: messages as any,
-        temperature: 0.7,
-        max_tokens: 4096,
-    });
-
-    const text = completion.choices[0]?.message?.content || '';
-    console.log('[executeLLM] Groq responded in', Date.now() - startTime, 'ms');
-    console.log('[executeLLM] Response length:', text.length, 'chars');
-
-    return text;
-}
-
-// Gemini LLM execution
-async function executeLLMViaGemini(
-    modelId: string,
-    systemPrompt: string,
-    userMessage: string,
-    images: string[]
-): Promise<string> {
-    const { GoogleGenerativeAI } = await import('@google/generative-ai');
-
-    const apiKey = process.env.GOOGLE_GENERATIVE_AI_API_KEY || process.env.GOOGLE_AI_API_KEY;
-    if (!apiKey) {
-        throw new Error('Google AI API key not configured (set GOOGLE_GENERATIVE_AI_API_KEY)');
-    }
-
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({
-        model: modelId,
-        systemInstruction: systemPrompt || undefined,
-    });
-
-    const parts: Array<{ text: string } | { inlineData: { data: string; mimeType: string } }> = [{ text: userMessage }];
-
-    for (const imageUrl of images) {
-        if (imageUrl.startsWith('blob:')) continue;
-
-        try {
-            const response = await fetch(imageUrl);
-            if (!response.ok) continue;
-            const buffer = await response.arrayBuffer();
-            const base64 = Buffer.from(buffer).toString('base64');
-            const mimeType = response.headers.get('content-type') || 'image/jpeg';
-            parts.push({ inlineData: { data: base64, mimeType } });
-        } catch (error) {
-            console.warn('[executeLLM] Failed to fetch image:', error);
-        }
-    }
-
-    console.log('[executeLLM] Calling Gemini API with', parts.length, 'parts');
-    const startTime = Date.now();
-
-    const result = await model.generateContent(parts);
-    const text = result.response.text();
-
-    console.log('[executeLLM] Gemini responded in', Date.now() - startTime, 'ms');
-    console.log('[executeLLM] Response length:', text.length, 'chars');
-
-    return text;
-}
-
-// Crop image execution using Transloadit
-async function executeCropImage(node: Node, inputs: Record<string, unknown>): Promise<string> {
-    console.log('[executeCropImage] Starting crop execution');
-    console.log('[executeCropImage] Inputs:', JSON.stringify(inputs, null, 2));
-
-    const imageUrl = inputs['image_url'] as string;
-    if (!imageUrl) {
-        throw new Error('Image URL is required');
-    }
-
-    // Check for blob: URLs - they can't be processed by Transloadit
-    if (imageUrl.startsWith('blob:')) {
-        console.warn('[executeCropImage] blob: URL detected - Transloadit cannot access browser-only URLs');
-        console.warn('[executeCropImage] Returning original URL as fallback (no crop applied)');
-        // Return the original URL as-is since we can't crop blob: URLs server-side
-        // The crop would need to happen in the browser for blob: URLs
-        return imageUrl;
-    }
-
-    // Get crop parameters
-    const xPercent = inputs['x_percent'] ?? (node.data as { xPercent?: number })?.xPercent ?? 0;
-    const yPercent = inputs['y_percent'] ?? (node.data as { yPercent?: number })?.yPercent ?? 0;
-    const widthPercent = inputs['width_percent'] ?? (node.data as { widthPercent?: number })?.widthPercent ?? 100;
-    const heightPercent = inputs['height_percent'] ?? (node.data as { heightPercent?: number })?.heightPercent ?? 100;
-
-    // Read actual image dimensions — first try node data, then dynamically probe the image
-    let sourceW = (node.data as any).sourceWidth || (node.data as any).sourceW || 0;
-    let sourceH = (node.data as any).sourceHeight || (node.data as any).sourceH || 0;
-
-    if (!sourceW || !sourceH) {
-        console.log('[executeCropImage] sourceWidth/sourceHeight not in node data — probing image dynamically…');
-        const probed = await probeImageDimensions(imageUrl);
-        if (probed) {
-            sourceW = probed.width;
-            sourceH = probed.height;
-        } else {
-            throw new Error('Unable to determine image dimensions for crop. The image URL may be inaccessible.');
-        }
-    }
-
-    const xPx = Math.round((Number(xPercent) / 100) * sourceW);
-    const yPx = Math.round((Number(yPercent) / 100) * sourceH);
-    const wPx = Math.max(1, Math.round((Number(widthPercent) / 100) * sourceW));
-    const hPx = Math.max(1, Math.round((Number(heightPercent) / 100) * sourceH));
-
-    console.log('[executeCropImage] Crop params (%):', { xPercent, yPercent, widthPercent, heightPercent });
-    console.log(`[executeCropImage] Source: ${sourceW}x${sourceH} → pixels: x=${xPx}, y=${yPx}, w=${wPx}, h=${hPx}`);
-
-    const baseUrl = getBaseUrl();
-    console.log('[executeCropImage] Calling /api/process at', baseUrl);
-
-    const response = await fetch(`${baseUrl}/api/process`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-            type: 'crop',
-            fileUrl: imageUrl,
-            x: xPx,
-            y: yPx,
-            width: wPx,
-            height: hPx,
-        }),
-    });
-
-    if (!response.ok) {
-        const error = await response.json();
-        console.error('[executeCropImage] Crop failed:', error);
-        throw new Error(`Crop failed: ${error.error || response.statusText}`);
-    }
-
-    const result = await response.json();
-    console.log('[executeCropImage] Crop successful, result URL:', result.resultUrl?.substring(0, 80));
-    return result.resultUrl;
-}
-
-// Extract frame execution using Transloadit
-async function executeExtractFrame(node: Node, inputs: Record<string, unknown>): Promise<string> {
-    const videoUrl = inputs['video_url'] as string;
-    if (!videoUrl) {
-        throw new Error('Video URL is required');
-    }
-
-    // Parse timestamp
-    const timestampStr = (inputs['timestamp'] ?? (node.data as { timestamp?: string })?.timestamp ?? '0') as string;
-    let timestampSeconds: number | null = null;
-    let timestampPercent: number | null = null;
-
-    if (timestampStr.includes('%')) {
-        const pct = parseFloat(timestampStr) / 100;
-        const videoDuration = (node.data as any).videoDuration || (node.data as any).duration || 0;
-        if (videoDuration > 0) {
-            timestampSeconds = Math.round(pct * videoDuration);
-            console.log(`[Frame/Direct] % timestamp: ${timestampStr} → ${timestampSeconds}s (duration=${videoDuration}s)`);
-        } else {
-            // No duration — pass percentage to process route for count-based extraction
-            timestampPercent = parseFloat(timestampStr); // e.g. 50
-            console.log(`[Frame/Direct] % timestamp with no duration — using count-based extraction (${timestampPercent}%)`);
-        }
-    } else if (timestampStr.includes(':')) {
-        const parts = timestampStr.split(':').map(Number);
-        if (parts.length === 3) {
-            timestampSeconds = parts[0] * 3600 + parts[1] * 60 + parts[2];
-        } else if (parts.length === 2) {
-            timestampSeconds = parts[0] * 60 + parts[1];
-        }
-    } else {
-        timestampSeconds = parseFloat(timestampStr) || 0;
-    }
-
-    const baseUrl = getBaseUrl();
-
-    // Build the request body — either seconds-based or percentage-based
-    const body: Record<string, unknown> = {
-        type: 'frame',
-        fileUrl: videoUrl,
-    };
-    if (timestampPercent !== null) {
-        body.timestampPercent = timestampPercent; // e.g. 50 → process route uses count-based approach
-    } else {
-        body.timestamp = timestampSeconds ?? 0;
-    }
-
-    const response = await fetch(`${baseUrl}/api/process`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-        const error = await response.json();
-        throw new Error(`Frame extraction failed: ${error.error || response.statusText}`);
-    }
-
-    const result = await response.json();
-    return result.resultUrl;
-}
-
-
@@ -0,0 +1,36 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { parseWorkflowExport, remapImportedIds, WorkflowFileError } from '@/lib/workflow-export';
+import { unbundleWorkflowAssets } from '@/lib/workflow-bundle';
+
+// POST /api/workflows/import - Read a workflow file (any schema version, plain or bundle)
+// Returns the graph to load; bundled media is re-uploaded for the current user
+export async function POST(request: NextRequest) {
+    try {
+        const { userId } = await auth();
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const body = await request.json().catch(() => null);
+
+        try {
+            const file = parseWorkflowExport(body);
+            const workflow = remapImportedIds(await unbundleWorkflowAssets(file));
+
+            return NextResponse.json({ workflow });
+        } catch (error) {
+            if (error instanceof WorkflowFileError) {
+                return NextResponse.json({ error: error.message }, { status: 400 });
+            }
+            throw error;
+        }
+    } catch (error) {
+        console.error('Failed to import workflow:', error);
+        return NextResponse.json(
+            { error: 'Failed to import workflow' },
+            { status: 500 }
+        );
+    }
+}
@@ -1,6 +1,7 @@
 import { auth, currentUser } from '@clerk/nextjs/server';
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/db';
+import { snapshotWorkflow, toWorkflowGraph } from '@/lib/workflow-versions';
 import { createWorkflowSchema } from '@/lib/validation/schemas';
 
 // GET /api/workflows - List all workflows for current user
@@ -88,14 +89,25 @@ export async function POST(request: NextRequest) {
             });
         }
 
-        const workflow = await prisma.workflow.create({
-            data: {
-                name: validation.data.name,
-                description: validation.data.description,
-                nodes: validation.data.nodes as object,
-                edges: validation.data.edges as object,
-                userId: user.id,
-            },
+        const workflow = await prisma.$transaction(async (tx) => {
+            const created = await tx.workflow.create({
+                data: {
+                    name: validation.data.name,
+                    description: validation.data.description,
+                    nodes: validation.data.nodes as object,
+                    edges: validation.data.edges as object,
+                    userId: user.id,
+                },
+            });
+
+            await snapshotWorkflow(tx, {
+                workflowId: created.id,
+                authorId: user.id,
+                ...toWorkflowGraph(created),
+                message: 'Created',
+            });
+
+            return created;
         });
 
         return NextResponse.json({ workflow }, { status: 201 });
@@ -0,0 +1,56 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { Node, Edge } from '@xyflow/react';
+import { WorkflowNodeData } from '@/types/nodes';
+import { validateWorkflow } from '@/lib/workflow-engine/validation';
+
+// Only the shape validateWorkflow reads: unknown node types and bad settings
+// come back as issues rather than failing the request
+const validateWorkflowSchema = z.object({
+    nodes: z.array(z.object({
+        id: z.string(),
+        type: z.string(),
+        data: z.record(z.string(), z.unknown()),
+    }).passthrough()),
+    edges: z.array(z.object({
+        source: z.string(),
+        target: z.string(),
+        sourceHandle: z.string().nullish(),
+        targetHandle: z.string().nullish(),
+    }).passthrough()),
+});
+
+// POST /api/workflows/validate - Check a graph for problems before running it
+export async function POST(request: NextRequest) {
+    try {
+        const { userId } = await auth();
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const body = await request.json();
+        const validation = validateWorkflowSchema.safeParse(body);
+
+        if (!validation.success) {
+            return NextResponse.json(
+                { error: 'Invalid input', details: validation.error.flatten() },
+                { status: 400 }
+            );
+        }
+
+        const report = validateWorkflow(
+            validation.data.nodes as Node<WorkflowNodeData>[],
+            validation.data.edges as Edge[]
+        );
+
+        return NextResponse.json(report);
+    } catch (error) {
+        console.error('Failed to validate workflow:', error);
+        return NextResponse.json(
+            { error: 'Failed to validate workflow' },
+            { status: 500 }
+        );
+    }
+}
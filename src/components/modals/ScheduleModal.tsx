@@ -0,0 +1,296 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { X, Trash2, Loader2, CheckCircle, XCircle, Ban, Circle } from 'lucide-react';
+import { toast } from 'sonner';
+import { useWorkflowStore } from '@/stores/workflow-store';
+import { getWorkflowInputs } from '@/lib/workflow-engine/workflow-inputs';
+
+interface ScheduleDisplay {
+    id: string;
+    cron: string;
+    timezone: string;
+    inputs?: Record<string, string> | null;
+    enabled: boolean;
+    lastRunAt?: string | null;
+    upcoming: string[];
+}
+
+interface ScheduledRunDisplay {
+    id: string;
+    status: 'SUCCESS' | 'FAILED' | 'RUNNING' | 'PARTIAL' | 'CANCELLED';
+    startedAt: string;
+    duration?: number | null;
+    error?: string | null;
+    scheduleId?: string | null;
+}
+
+interface ScheduleModalProps {
+    workflowId?: string;
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+// A time as read in the schedule's own time zone
+function formatScheduleTime(time: string, timeZone: string): string {
+    return new Date(time).toLocaleString(undefined, { timeZone, dateStyle: 'medium', timeStyle: 'short' });
+}
+
+export function ScheduleModal({ workflowId, isOpen, onClose }: ScheduleModalProps) {
+    const [schedules, setSchedules] = useState<ScheduleDisplay[]>([]);
+    const [runs, setRuns] = useState<ScheduledRunDisplay[]>([]);
+    const [refreshKey, setRefreshKey] = useState(0);
+    const [cron, setCron] = useState('0 2 * * *');
+    const [timezone, setTimezone] = useState(() => Intl.DateTimeFormat().resolvedOptions().timeZone);
+    const [inputValues, setInputValues] = useState<Record<string, string>>({});
+    const [isCreating, setIsCreating] = useState(false);
+    const nodes = useWorkflowStore((state) => state.nodes);
+
+    const hasWorkflow = !!workflowId && workflowId !== 'new';
+
+    // Declared workflow inputs, one field per name
+    const workflowInputs = useMemo(() => {
+        const seen = new Set<string>();
+        return getWorkflowInputs(nodes).filter(input => !seen.has(input.name) && seen.add(input.name));
+    }, [nodes]);
+
+    useEffect(() => {
+        if (!isOpen || !hasWorkflow) return;
+
+        let cancelled = false;
+        const fetchSchedules = async () => {
+            try {
+                const response = await fetch(`/api/workflows/${workflowId}/schedules`, { cache: 'no-store' });
+                if (response.ok && !cancelled) {
+                    const data = await response.json();
+                    setSchedules(data.schedules || []);
+                    setRuns(data.runs || []);
+                }
+            } catch (error) {
+                console.error('Failed to fetch schedules:', error);
+            }
+        };
+
+        fetchSchedules();
+        return () => {
+            cancelled = true;
+        };
+    }, [isOpen, hasWorkflow, workflowId, refreshKey]);
+
+    if (!isOpen) return null;
+
+    const refresh = () => setRefreshKey(key => key + 1);
+
+    const handleCreate = async () => {
+        setIsCreating(true);
+        try {
+            const inputs = Object.fromEntries(
+                workflowInputs
+                    .filter(input => inputValues[input.name]?.trim())
+                    .map(input => [input.name, inputValues[input.name].trim()])
+            );
+            const response = await fetch(`/api/workflows/${workflowId}/schedules`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    cron,
+                    timezone,
+                    inputs: Object.keys(inputs).length > 0 ? inputs : undefined,
+                }),
+            });
+            if (!response.ok) {
+                const data = await response.json().catch(() => ({}));
+                throw new Error(data.error || 'Failed to create schedule');
+            }
+            toast.success('Schedule created');
+            refresh();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to create schedule');
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    const handleToggle = async (schedule: ScheduleDisplay) => {
+        try {
+            const response = await fetch(`/api/workflows/${workflowId}/schedules/${schedule.id}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ enabled: !schedule.enabled }),
+            });
+            if (!response.ok) throw new Error('Failed to update schedule');
+            refresh();
+        } catch (error) {
+            console.error('Failed to update schedule:', error);
+            toast.error('Failed to update schedule');
+        }
+    };
+
+    const handleDelete = async (scheduleId: string) => {
+        try {
+            const response = await fetch(`/api/workflows/${workflowId}/schedules/${scheduleId}`, {
+                method: 'DELETE',
+            });
+            if (!response.ok) throw new Error('Failed to delete schedule');
+            setSchedules(prev => prev.filter(s => s.id !== scheduleId));
+        } catch (error) {
+            console.error('Failed to delete schedule:', error);
+            toast.error('Failed to delete schedule');
+        }
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center"
+            onClick={onClose}
+        >
+            <div
+                className="bg-[#1C1C1E] rounded-2xl w-full max-w-lg p-6 relative max-h-[85vh] overflow-y-auto custom-scrollbar font-[family-name:var(--font-dm-sans)] text-[12px] font-normal"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <button
+                    onClick={onClose}
+                    className="absolute top-6 right-6 text-gray-400 hover:text-white transition-colors"
+                >
+                    <X className="w-6 h-6" />
+                </button>
+
+                <h2 className="text-white text-2xl font-semibold mb-2 mt-3">
+                    Schedules
+                </h2>
+                <p className="text-gray-500 mb-6">
+                    Scheduled runs execute the last saved version of the workflow.
+                </p>
+
+                {!hasWorkflow ? (
+                    <p className="text-gray-400">Save the workflow to schedule runs.</p>
+                ) : (
+                    <>
+                        {/* New schedule */}
+                        <div className="space-y-3 mb-8">
+                            <div className="flex gap-3">
+                                <input
+                                    type="text"
+                                    value={cron}
+                                    onChange={(e) => setCron(e.target.value)}
+                                    placeholder="0 2 * * *"
+                                    title="minute hour day-of-month month day-of-week"
+                                    className="flex-1 bg-[#2B2B2F] border border-[#3C3C3E] rounded-lg px-4 py-3 text-white font-mono placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-[#E1E476] transition-all"
+                                />
+                                <input
+                                    type="text"
+                                    value={timezone}
+                                    onChange={(e) => setTimezone(e.target.value)}
+                                    placeholder="UTC"
+                                    className="w-40 bg-[#2B2B2F] border border-[#3C3C3E] rounded-lg px-4 py-3 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-[#E1E476] transition-all"
+                                />
+                            </div>
+                            {workflowInputs.map((input) => (
+                                <input
+                                    key={input.name}
+                                    type="text"
+                                    value={inputValues[input.name] ?? ''}
+                                    onChange={(e) => setInputValues(prev => ({ ...prev, [input.name]: e.target.value }))}
+                                    placeholder={`${input.name} (${input.type})`}
+                                    className="w-full bg-[#2B2B2F] border border-[#3C3C3E] rounded-lg px-4 py-2 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-[#E1E476] transition-all"
+                                />
+                            ))}
+                            <button
+                                onClick={handleCreate}
+                                disabled={!cron.trim() || isCreating}
+                                className="flex items-center gap-2 px-6 py-3 bg-[#E1E476] hover:bg-[#d4d765] disabled:opacity-50 disabled:cursor-not-allowed text-black rounded-lg transition-colors"
+                            >
+                                {isCreating && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+                                Add schedule
+                            </button>
+                        </div>
+
+                        {/* Existing schedules with their upcoming runs */}
+                        <div className="mb-8">
+                            <h3 className="text-white text-[12px] font-medium mb-3">Upcoming</h3>
+                            {schedules.length === 0 ? (
+                                <p className="text-gray-500">No schedules yet.</p>
+                            ) : (
+                                <div className="space-y-2">
+                                    {schedules.map((schedule) => (
+                                        <div key={schedule.id} className="bg-[#2B2B2F] rounded-lg px-4 py-3">
+                                            <div className="flex items-center justify-between">
+                                                <div>
+                                                    <span className="text-white font-mono">{schedule.cron}</span>
+                                                    <span className="text-gray-500"> · {schedule.timezone}</span>
+                                                </div>
+                                                <div className="flex items-center gap-3">
+                                                    <label className="flex items-center gap-1.5 text-gray-400 cursor-pointer">
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={schedule.enabled}
+                                                            onChange={() => handleToggle(schedule)}
+                                                            className="accent-[#E1E476]"
+                                                        />
+                                                        Enabled
+                                                    </label>
+                                                    <button
+                                                        onClick={() => handleDelete(schedule.id)}
+                                                        className="text-gray-400 hover:text-[#EF9192] transition-colors"
+                                                        title="Delete schedule"
+                                                    >
+                                                        <Trash2 className="w-3.5 h-3.5" />
+                                                    </button>
+                                                </div>
+                                            </div>
+                                            {schedule.inputs && Object.keys(schedule.inputs).length > 0 && (
+                                                <div className="text-[11px] text-gray-500 mt-1 truncate">
+                                                    {Object.entries(schedule.inputs).map(([name, value]) => `${name} = ${value}`).join(' · ')}
+                                                </div>
+                                            )}
+                                            <div className="text-[11px] text-gray-400 mt-1.5 space-y-0.5">
+                                                {schedule.upcoming.length > 0
+                                                    ? schedule.upcoming.map(time => (
+                                                        <div key={time}>{formatScheduleTime(time, schedule.timezone)}</div>
+                                                    ))
+                                                    : <div className="text-gray-500">Paused</div>}
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+
+                        {/* Past scheduled runs */}
+                        <div>
+                            <h3 className="text-white text-[12px] font-medium mb-3">Past runs</h3>
+                            {runs.length === 0 ? (
+                                <p className="text-gray-500">No scheduled runs yet.</p>
+                            ) : (
+                                <div className="space-y-1">
+                                    {runs.map((run) => (
+                                        <div key={run.id} className="flex items-center justify-between px-2 py-1.5" title={run.error ?? undefined}>
+                                            <div className="flex items-center gap-3">
+                                                {run.status === 'SUCCESS' ? (
+                                                    <CheckCircle className="w-[14px] h-[14px] text-white" strokeWidth={1.5} />
+                                                ) : run.status === 'FAILED' ? (
+                                                    <XCircle className="w-[14px] h-[14px] text-[#EF9192]" strokeWidth={1.5} />
+                                                ) : run.status === 'RUNNING' ? (
+                                                    <Loader2 className="w-[14px] h-[14px] text-[#A855F7] animate-spin" strokeWidth={1.5} />
+                                                ) : run.status === 'CANCELLED' ? (
+                                                    <Ban className="w-[14px] h-[14px] text-[#828282]" strokeWidth={1.5} />
+                                                ) : (
+                                                    <Circle className="w-[14px] h-[14px] text-[#828282]" strokeWidth={1.5} />
+                                                )}
+                                                <span className="text-[#E5E5E5]">{new Date(run.startedAt).toLocaleString()}</span>
+                                            </div>
+                                            <span className={run.status === 'FAILED' ? 'text-[#EF9192]' : 'text-[#828282]'}>
+                                                {run.status.toLowerCase()}
+                                                {run.duration ? ` · ${(run.duration / 1000).toFixed(1)}s` : ''}
+                                            </span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
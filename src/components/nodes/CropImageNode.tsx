@@ -6,6 +6,7 @@ import { MoreHorizontal, Link as LinkIcon, ChevronDown, Asterisk } from 'lucide-
 import { CropImageNodeData } from '@/types/nodes';
 import { useWorkflowStore } from '@/stores/workflow-store';
 import { NodeContextMenu } from '../ui/NodeContextMenu';
+import { requestRunFromNode } from '@/lib/workflow-engine/run-status';
 import { RenameModal } from '../ui/RenameModal';
 
 // ─── Aspect Ratio Helpers ────────────────────────────────────────────────────
@@ -64,7 +65,9 @@ function CropImageNodeComponent({ id, data, selected }: NodeProps) {
     const isLocked    = Boolean(nodeData.isLocked);
     const status      = String(nodeData.status || 'idle');
     const imgUrl      = nodeData.imageUrl as string | undefined;
-    const output      = nodeData.output as string | undefined;
+    // Cropping a list of images outputs a list; the node previews the first result
+    const outputs     = (Array.isArray(nodeData.output) ? nodeData.output : [nodeData.output]) as (string | undefined)[];
+    const output      = outputs[0];
     const error       = nodeData.error as string | undefined;
     const sourceW     = (nodeData.sourceWidth  ?? 0) as number;
     const sourceH     = (nodeData.sourceHeight ?? 0) as number;
@@ -95,7 +98,8 @@ function CropImageNodeComponent({ id, data, selected }: NodeProps) {
     // ── resolve upstream source image ────────────────────────────────────────
     const connectedEdge  = edges.find(e => e.target === id && e.targetHandle === 'image_url');
     const sourceNode     = connectedEdge ? getNode(connectedEdge.source) : null;
-    const sourceImageUrl = (sourceNode?.data?.output ?? sourceNode?.data?.imageUrl) as string | undefined;
+    const sourceOutput   = sourceNode?.data?.output ?? sourceNode?.data?.imageUrl;
+    const sourceImageUrl = (Array.isArray(sourceOutput) ? sourceOutput[0] : sourceOutput) as string | undefined;
 
     // Sync source image → detect dimensions & aspect ratio on first connect
     useEffect(() => {
@@ -284,6 +288,7 @@ function CropImageNodeComponent({ id, data, selected }: NodeProps) {
                     ${selected ? 'bg-[#2B2B2F] ring-2 ring-inset ring-[#333337]' : 'bg-[#212126]'}
                     ${isExecuting ? 'ring-2 ring-[#F7FFA8]/50 node-executing' : ''}
                     ${status === 'error' ? 'ring-2 ring-red-500' : ''}
+                    ${status === 'skipped' ? 'opacity-50' : ''}
                     ${status === 'success' ? 'ring-2 ring-green-500/30' : ''}
                 `}
                 style={{ fontFamily: 'var(--font-dm-sans)' }}
@@ -381,6 +386,7 @@ function CropImageNodeComponent({ id, data, selected }: NodeProps) {
                             onRename={() => { setIsMenuOpen(false); setIsRenameModalOpen(true); }}
                             onLock={handleLock}
                             onDelete={handleDelete}
+                            onRunFromHere={() => requestRunFromNode(id)}
                             isLocked={isLocked}
                         />
                     </div>
@@ -589,7 +595,7 @@ function CropImageNodeComponent({ id, data, selected }: NodeProps) {
                     {/* ── Output Result ─────────────────────────────────── */}
                     {hasOutput && output && (
                         <div className="mt-4 space-y-2">
-                            <span className="text-[#34D399] text-[12px] uppercase tracking-wider">✓ Cropped Result</span>
+                            <span className="text-[#34D399] text-[12px] uppercase tracking-wider">✓ Cropped Result{outputs.length > 1 && ` (1 of ${outputs.length})`}</span>
                             <div className="relative rounded-lg overflow-hidden bg-[#1A1A1D] border border-[#2C2C2E]">
                                 <img src={output} alt="Cropped result" className="w-full h-auto max-h-[200px] object-contain" />
                             </div>
@@ -6,6 +6,7 @@ import { MoreHorizontal, Loader2, Asterisk } from 'lucide-react';
 import { ExtractFrameNodeData } from '@/types/nodes';
 import { useWorkflowStore } from '@/stores/workflow-store';
 import { NodeContextMenu } from '../ui/NodeContextMenu';
+import { requestRunFromNode } from '@/lib/workflow-engine/run-status';
 import { RenameModal } from '../ui/RenameModal';
 
 const DEFAULT_FPS = 30;
@@ -25,7 +26,9 @@ function ExtractFrameNodeComponent({ id, data, selected }: NodeProps) {
     const status = String(nodeData.status || 'idle');
     const videoUrl = nodeData.videoUrl as string | undefined;
     const frameUrl = nodeData.frameUrl as string | undefined;
-    const output = nodeData.output as string | undefined;
+    // Extracting from a list of videos outputs a list; the node previews the first frame
+    const outputs = (Array.isArray(nodeData.output) ? nodeData.output : [nodeData.output]) as (string | undefined)[];
+    const output = outputs[0];
     const error = nodeData.error as string | undefined;
     const frame = nodeData.frame as number | undefined;
     const timecode = nodeData.timecode as string | undefined;
@@ -58,7 +61,8 @@ function ExtractFrameNodeComponent({ id, data, selected }: NodeProps) {
     // Find connected source video
     const connectedEdge = edges.find(e => e.target === id && e.targetHandle === 'video_url');
     const sourceNode = connectedEdge ? getNode(connectedEdge.source) : null;
-    const sourceVideoUrl = (sourceNode?.data?.output ?? sourceNode?.data?.videoUrl) as string | undefined;
+    const sourceOutput = sourceNode?.data?.output ?? sourceNode?.data?.videoUrl;
+    const sourceVideoUrl = (Array.isArray(sourceOutput) ? sourceOutput[0] : sourceOutput) as string | undefined;
 
     // Sync source video to node data
     useEffect(() => {
@@ -202,6 +206,7 @@ function ExtractFrameNodeComponent({ id, data, selected }: NodeProps) {
                     ${selected ? 'bg-[#2B2B2F] ring-2 ring-inset ring-[#333337]' : 'bg-[#212126]'}
                     ${isExecuting ? 'ring-2 ring-[#F7FFA8]/50 node-executing' : ''}
                     ${status === 'error' ? 'ring-2 ring-red-500' : ''}
+                    ${status === 'skipped' ? 'opacity-50' : ''}
                     ${status === 'success' ? 'ring-2 ring-green-500/30' : ''}
                     ${videoUrl ? 'min-w-[300px] max-w-[600px] w-fit' : 'min-w-[460px] w-[460px]'}
                 `}
@@ -311,6 +316,7 @@ function ExtractFrameNodeComponent({ id, data, selected }: NodeProps) {
                             }}
                             onLock={handleLock}
                             onDelete={handleDelete}
+                            onRunFromHere={() => requestRunFromNode(id)}
                             isLocked={isLocked}
                         />
                     </div>
@@ -431,7 +437,7 @@ function ExtractFrameNodeComponent({ id, data, selected }: NodeProps) {
                     {/* Output Result Display */}
                     {hasOutput && output && (
                         <div className="mt-4 space-y-2">
-                            <span className="text-[#34D399] text-[12px] uppercase tracking-wider">✓ Extracted Frame</span>
+                            <span className="text-[#34D399] text-[12px] uppercase tracking-wider">✓ Extracted Frame{outputs.length > 1 && ` (1 of ${outputs.length})`}</span>
                             <div className="relative rounded-lg overflow-hidden bg-[#1A1A1D] border border-[#2C2C2E]">
                                 <img
                                     src={output}
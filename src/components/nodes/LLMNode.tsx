@@ -1,11 +1,13 @@
 'use client';
 
-import { memo, useState } from 'react';
-import { Handle, Position, NodeProps, useReactFlow, useHandleConnections } from '@xyflow/react';
-import { MoreHorizontal, Play, Plus, Asterisk, ArrowRight } from 'lucide-react';
-import { LLMNodeData } from '@/types/nodes';
+import { memo, useEffect, useMemo, useState } from 'react';
+import { Handle, Position, NodeProps, useReactFlow, useHandleConnections, useUpdateNodeInternals } from '@xyflow/react';
+import { MoreHorizontal, Play, Plus, Asterisk, ArrowRight, Send } from 'lucide-react';
+import { ChatMessage, LLMNodeData } from '@/types/nodes';
 import { useWorkflowStore } from '@/stores/workflow-store';
 import { NodeContextMenu } from '../ui/NodeContextMenu';
+import { requestRunFromNode } from '@/lib/workflow-engine/run-status';
+import { JSON_FIELD_HANDLE_PREFIX, getJsonSchemaFields } from '@/lib/llm/json-output';
 
 // Helper component for handles to ensure consistent styling and connection logic
 const CustomHandle = ({
@@ -97,9 +99,21 @@ const CustomHandle = ({
 
 function LLMNodeComponent({ id, data, selected }: NodeProps) {
     const nodeData = data as LLMNodeData;
-    const { updateNodeData } = useWorkflowStore();
+    const { updateNodeData, runLLMNode, sendChatMessage } = useWorkflowStore();
     const isExecuting = nodeData.status === 'running';
     const [isMenuOpen, setIsMenuOpen] = useState(false);
+    const [followUp, setFollowUp] = useState('');
+    const updateNodeInternals = useUpdateNodeInternals();
+
+    // JSON output mode adds a text output per top-level schema field
+    const jsonFields = useMemo(
+        () => nodeData.outputMode === 'json' ? getJsonSchemaFields(nodeData.jsonSchema) : [],
+        [nodeData.outputMode, nodeData.jsonSchema]
+    );
+    const jsonFieldsKey = jsonFields.join('\n');
+    useEffect(() => {
+        updateNodeInternals(id);
+    }, [id, jsonFieldsKey, updateNodeInternals]);
 
     const handleAddImageInput = (e: React.MouseEvent) => {
         e.stopPropagation();
@@ -110,56 +124,31 @@ function LLMNodeComponent({ id, data, selected }: NodeProps) {
         });
     };
 
-    const handleRunNode = async (e: React.MouseEvent) => {
+    const handleRunNode = (e: React.MouseEvent) => {
         e.stopPropagation();
         console.log('Run node:', id);
+        runLLMNode(id);
+    };
 
-        // Get current workflow state from the store
-        const { nodes, edges, workflowId } = useWorkflowStore.getState();
-
-        updateNodeData(id, { status: 'running', response: '' });
-
-        try {
-            const response = await fetch('/api/workflows/execute', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    workflowId: workflowId || 'temp',
-                    nodes: nodes,
-                    edges: edges,
-                    scope: 'SINGLE',
-                    nodeIds: [id],
-                }),
-            });
-
-            const result = await response.json();
-
-            if (!response.ok) {
-                throw new Error(result.error || 'Execution failed');
-            }
+    const handleSendFollowUp = () => {
+        const content = followUp.trim();
+        if (!content || isExecuting) return;
+        setFollowUp('');
+        sendChatMessage(id, content);
+    };
 
-            // Find the result for this node
-            const nodeResult = result.results?.find((r: { nodeId: string }) => r.nodeId === id);
+    // Chat mode: the conversation, with the reply being generated streaming in
+    // after the turns it answers
+    const transcript = useMemo((): ChatMessage[] => {
+        const messages = nodeData.messages ?? [];
+        if (!isExecuting) return messages;
 
-            if (nodeResult?.status === 'SUCCESS') {
-                updateNodeData(id, {
-                    status: 'success',
-                    response: nodeResult.output || 'No response generated',
-                    output: nodeResult.output,
-                });
-            } else {
-                throw new Error(nodeResult?.error || 'Node execution failed');
-            }
-        } catch (error) {
-            console.error('LLM execution failed:', error);
-            updateNodeData(id, {
-                status: 'error',
-                response: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            });
-        }
-    };
+        const answering = messages.at(-1)?.role === 'assistant' ? messages.slice(0, -1) : messages;
+        const turns: ChatMessage[] = answering.length > 0 || !nodeData.userMessage
+            ? answering
+            : [{ role: 'user', content: nodeData.userMessage }];
+        return nodeData.response ? [...turns, { role: 'assistant', content: nodeData.response }] : turns;
+    }, [nodeData.messages, nodeData.userMessage, nodeData.response, isExecuting]);
 
     return (
         <div
@@ -168,6 +157,7 @@ function LLMNodeComponent({ id, data, selected }: NodeProps) {
                 ${selected ? 'ring-2 ring-inset ring-[#333337] bg-[#2B2B2F]' : ''}
                 ${isExecuting ? 'ring-2 ring-[#F7FFA8]/50 node-executing' : ''}
                 ${nodeData.status === 'error' ? 'ring-2 ring-red-500' : ''}
+                ${nodeData.status === 'skipped' ? 'opacity-50' : ''}
             `}
         >
             {/* Header */}
@@ -194,6 +184,7 @@ function LLMNodeComponent({ id, data, selected }: NodeProps) {
                         onRename={() => { }}
                         onLock={() => { }}
                         onDelete={() => { }}
+                        onRunFromHere={() => requestRunFromNode(id)}
                         isLocked={false}
                     />
                 </div>
@@ -202,7 +193,30 @@ function LLMNodeComponent({ id, data, selected }: NodeProps) {
             {/* Content Area */}
             <div className="px-[18px] pb-0">
                 <div className="relative group/input">
-                    {nodeData.response ? (
+                    {nodeData.chatMode ? (
+                        <div className="
+                            w-full bg-[#353539] rounded-xl p-4 min-h-[320px] max-h-[437px]
+                            flex flex-col gap-3 text-[15px] leading-relaxed
+                            custom-scrollbar overflow-y-auto nowheel
+                        " style={{ fontFamily: 'var(--font-dm-sans)' }}>
+                            {transcript.length === 0 && (
+                                <p className="text-gray-500">Send a message to start the conversation</p>
+                            )}
+                            {transcript.map((message, index) => (
+                                <div
+                                    key={index}
+                                    className={`max-w-[85%] rounded-lg px-3 py-2 whitespace-pre-wrap ${message.role === 'user'
+                                        ? 'self-end bg-[#2B2B2F] text-gray-200'
+                                        : 'self-start text-gray-300'}`}
+                                >
+                                    {message.content}
+                                </div>
+                            ))}
+                            {nodeData.status === 'error' && nodeData.response && (
+                                <p className="text-[13px] text-red-400">{nodeData.response}</p>
+                            )}
+                        </div>
+                    ) : nodeData.response ? (
                         <div className="
                             w-full bg-[#353539] rounded-xl p-5 min-h-[320px] 
                             text-[15px] leading-relaxed text-gray-300 font-normal
@@ -224,6 +238,40 @@ function LLMNodeComponent({ id, data, selected }: NodeProps) {
                         />
                     )}
                 </div>
+
+                {/* Follow-up message, answered with the conversation so far */}
+                {nodeData.chatMode && (
+                    <div className="mt-2 flex items-end gap-2">
+                        <textarea
+                            rows={2}
+                            value={followUp}
+                            onChange={(e) => setFollowUp(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter' && !e.shiftKey) {
+                                    e.preventDefault();
+                                    handleSendFollowUp();
+                                }
+                            }}
+                            placeholder="Send a follow-up…"
+                            className="
+                                flex-1 bg-[#353539] rounded-lg px-3 py-2
+                                text-[14px] text-gray-200 placeholder-gray-500
+                                resize-none focus:outline-none focus:ring-1 focus:ring-[#333337]
+                            " style={{ fontFamily: 'var(--font-dm-sans)' }}
+                        />
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                handleSendFollowUp();
+                            }}
+                            disabled={isExecuting || !followUp.trim()}
+                            className="p-2.5 rounded-lg bg-[#212126] hover:bg-[#363639] border-[0.5px] border-white/30 text-gray-200 transition-all disabled:opacity-40"
+                            title="Send (Enter)"
+                        >
+                            <Send className="w-4 h-4" />
+                        </button>
+                    </div>
+                )}
             </div>
 
             {/* Footer */}
@@ -319,12 +367,27 @@ function LLMNodeComponent({ id, data, selected }: NodeProps) {
                     type="source"
                     position={Position.Right}
                     color="#F1A0FA" // Pink
-                    label="Text"
+                    label={jsonFields.length > 0 ? 'JSON' : 'Text'}
                     selected={selected || false}
                     isRing={true}
                 />
             </div>
 
+            {/* JSON Field Handles */}
+            {jsonFields.map((field, index) => (
+                <div key={field} className="absolute" style={{ top: `${80 + (index + 1) * 60}px`, right: 0 }}>
+                    <CustomHandle
+                        id={`${JSON_FIELD_HANDLE_PREFIX}${field}`}
+                        type="source"
+                        position={Position.Right}
+                        color="#F1A0FA" // Pink
+                        label={field}
+                        selected={selected || false}
+                        isRing={true}
+                    />
+                </div>
+            ))}
+
         </div >
     );
 }
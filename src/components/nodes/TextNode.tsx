@@ -1,12 +1,47 @@
 'use client';
 
-import { memo, useState, useRef } from 'react';
-import { Handle, Position, NodeProps, useReactFlow, useHandleConnections } from '@xyflow/react';
+import { memo, useState, useRef, useEffect, useMemo } from 'react';
+import { Handle, Position, NodeProps, useReactFlow, useHandleConnections, useUpdateNodeInternals } from '@xyflow/react';
 import { MoreHorizontal } from 'lucide-react';
 import { TextNodeData } from '@/types/nodes';
 import { useWorkflowStore } from '@/stores/workflow-store';
 import { NodeContextMenu } from '../ui/NodeContextMenu';
+import { requestRunFromNode } from '@/lib/workflow-engine/run-status';
 import { RenameModal } from '../ui/RenameModal';
+import { TEMPLATE_VARIABLE_HANDLE_PREFIX, getTemplateVariables } from '@/lib/workflow-engine/templates';
+
+// Input handle for one {{variable}} in the prompt
+function VariableHandle({ name, top, selected }: { name: string; top: number; selected: boolean }) {
+    const handleId = `${TEMPLATE_VARIABLE_HANDLE_PREFIX}${name}`;
+    const connections = useHandleConnections({ type: 'target', id: handleId });
+
+    return (
+        <div
+            className={`
+                absolute -left-4 w-8 h-8 rounded-full flex items-center justify-center pointer-events-auto
+                ${selected ? 'bg-[#2B2B2F]' : 'bg-[#212126]'}
+            `}
+            style={{ top }}
+        >
+            <Handle
+                type="target"
+                position={Position.Left}
+                id={handleId}
+                className="!w-4 !h-4 !bg-[#2B2B2F] !border-[3.3px] !border-[#F2A0FB] flex items-center justify-center"
+            >
+                {connections.length > 0 && <div className="w-1.5 h-1.5 bg-[#F2A0FB] rounded-full" />}
+            </Handle>
+            <div className={`
+                absolute right-full mr-2 flex items-center transition-opacity duration-200
+                ${selected || 'group-hover:opacity-100 opacity-0'}
+            `}>
+                <span className="text-[#F2A0FB] font-medium text-[14px] whitespace-nowrap" style={{ fontFamily: 'var(--font-dm-mono)' }}>
+                    {`{{${name}}}`}
+                </span>
+            </div>
+        </div>
+    );
+}
 
 function TextNodeComponent({ id, data, selected }: NodeProps) {
     const nodeData = data as TextNodeData;
@@ -20,6 +55,14 @@ function TextNodeComponent({ id, data, selected }: NodeProps) {
     });
     const isConnected = connections.length > 0;
 
+    // Each {{variable}} in the text gets an input handle on the left
+    const variables = useMemo(() => getTemplateVariables(nodeData.text), [nodeData.text]);
+    const variablesKey = variables.join('\n');
+    const updateNodeInternals = useUpdateNodeInternals();
+    useEffect(() => {
+        updateNodeInternals(id);
+    }, [id, variablesKey, updateNodeInternals]);
+
     // Local State
     const [isMenuOpen, setIsMenuOpen] = useState(false);
     const [isRenameModalOpen, setIsRenameModalOpen] = useState(false);
@@ -65,6 +108,7 @@ function TextNodeComponent({ id, data, selected }: NodeProps) {
                     ${selected ? 'bg-[#2B2B2F] ring-2 ring-inset ring-[#333337]' : 'bg-[#212126]'}
                     ${isExecuting ? 'ring-2 ring-[#F7FFA8]/50 node-executing' : ''}
                     ${nodeData.status === 'error' ? 'ring-2 ring-red-500' : ''}
+                    ${nodeData.status === 'skipped' ? 'opacity-50' : ''}
                 `}
             >
                 {/* Header */}
@@ -98,6 +142,7 @@ function TextNodeComponent({ id, data, selected }: NodeProps) {
                             }}
                             onLock={handleLock}
                             onDelete={handleDelete}
+                            onRunFromHere={() => requestRunFromNode(id)}
                             isLocked={nodeData.isLocked}
                         />
                     </div>
@@ -109,7 +154,7 @@ function TextNodeComponent({ id, data, selected }: NodeProps) {
                         value={nodeData.text || ''}
                         onChange={(e) => updateNodeData(id, { text: e.target.value, output: e.target.value })}
                         onKeyDown={(e) => e.stopPropagation()}
-                        placeholder="Your prompt goes here..."
+                        placeholder="Your prompt goes here... Use {{name}} for text filled in from an input"
                         className={`
                             w-full bg-[#353539] transition-colors rounded-lg p-6
                             text-[16px] font-[family-name:var(--font-dm-sans)] font-medium text-gray-100 placeholder-gray-500 
@@ -125,6 +170,11 @@ function TextNodeComponent({ id, data, selected }: NodeProps) {
                     />
                 </div>
 
+                {/* Template variable handles */}
+                {variables.map((name, index) => (
+                    <VariableHandle key={name} name={name} top={72 + index * 48} selected={selected || false} />
+                ))}
+
                 {/* Handle Container */}
                 <div
                     className={`
@@ -7,8 +7,16 @@ import { UploadImageNodeData } from '@/types/nodes';
 import { useWorkflowStore } from '@/stores/workflow-store';
 import { useDropzone } from 'react-dropzone';
 import { NodeContextMenu } from '../ui/NodeContextMenu';
+import { requestRunFromNode } from '@/lib/workflow-engine/run-status';
 import { RenameModal } from '../ui/RenameModal';
 
+// Several images make the node's output a list, which downstream nodes run once per image
+function toUploadedData(files: File[], imageUrls: string[]): Partial<UploadImageNodeData> {
+    return imageUrls.length > 1
+        ? { imageUrl: imageUrls[0], imageUrls, fileName: `${imageUrls.length} images`, output: imageUrls }
+        : { imageUrl: imageUrls[0], imageUrls: undefined, fileName: files[0].name, output: imageUrls[0] };
+}
+
 function UploadImageNodeComponent({ id, data, selected }: NodeProps) {
     const nodeData = data as UploadImageNodeData;
     const { updateNodeData, deleteNode } = useWorkflowStore();
@@ -150,12 +158,14 @@ function UploadImageNodeComponent({ id, data, selected }: NodeProps) {
         throw new Error('No upload result found in Transloadit response');
     };
 
-    const [pendingFile, setPendingFile] = useState<File | null>(null);
+    const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+    // Files uploaded so far while several are uploading
+    const [uploadedCount, setUploadedCount] = useState(0);
 
     const onDrop = useCallback(async (acceptedFiles: File[]) => {
         if (acceptedFiles.length === 0 || nodeData.isLocked) return;
         const file = acceptedFiles[0];
-        setPendingFile(file);
+        setPendingFiles(acceptedFiles);
         setIsUploading(true);
 
         // Show a local blob preview immediately — stored in component state ONLY, never in Zustand
@@ -165,13 +175,18 @@ function UploadImageNodeComponent({ id, data, selected }: NodeProps) {
         updateNodeData(id, { fileName: file.name, status: 'running' });
 
         try {
-            const imageUrl = await uploadToTransloadit(file);
-            console.log('[Upload] Success! Setting final Transloadit URL:', imageUrl);
+            const imageUrls: string[] = [];
+            setUploadedCount(0);
+            for (const pending of acceptedFiles) {
+                imageUrls.push(await uploadToTransloadit(pending));
+                setUploadedCount(imageUrls.length);
+            }
+            console.log('[Upload] Success! Setting final Transloadit URLs:', imageUrls);
             // Clear local preview and write the permanent Transloadit CDN URL to the store
             setLocalPreviewUrl(null);
             URL.revokeObjectURL(previewUrl);
-            updateNodeData(id, { imageUrl, fileName: file.name, output: imageUrl, status: 'success', error: undefined });
-            setPendingFile(null);
+            updateNodeData(id, { ...toUploadedData(acceptedFiles, imageUrls), status: 'success', error: undefined });
+            setPendingFiles([]);
         } catch (error) {
             console.error('[Upload] Upload failed:', error);
             // Keep blob preview in local state for display, but do NOT write it to the store
@@ -187,13 +202,18 @@ function UploadImageNodeComponent({ id, data, selected }: NodeProps) {
     }, [nodeData.isLocked, id, updateNodeData]);
 
     const retryUpload = useCallback(async () => {
-        if (!pendingFile) return;
+        if (pendingFiles.length === 0) return;
         setIsUploading(true);
         updateNodeData(id, { status: 'running', error: undefined });
         try {
-            const imageUrl = await uploadToTransloadit(pendingFile);
-            updateNodeData(id, { imageUrl, fileName: pendingFile.name, output: imageUrl, status: 'success', error: undefined });
-            setPendingFile(null);
+            const imageUrls: string[] = [];
+            setUploadedCount(0);
+            for (const pending of pendingFiles) {
+                imageUrls.push(await uploadToTransloadit(pending));
+                setUploadedCount(imageUrls.length);
+            }
+            updateNodeData(id, { ...toUploadedData(pendingFiles, imageUrls), status: 'success', error: undefined });
+            setPendingFiles([]);
         } catch (error) {
             console.error('[Upload] Retry failed:', error);
             updateNodeData(id, {
@@ -203,19 +223,18 @@ function UploadImageNodeComponent({ id, data, selected }: NodeProps) {
         } finally {
             setIsUploading(false);
         }
-    }, [pendingFile, id, updateNodeData]);
+    }, [pendingFiles, id, updateNodeData]);
 
     const { getRootProps, getInputProps, isDragActive } = useDropzone({
         onDrop,
         accept: { 'image/*': ['.jpg', '.jpeg', '.png', '.webp', '.gif'] },
-        maxFiles: 1,
         disabled: isExecuting || isUploading || nodeData.isLocked,
     });
 
     const clearImage = (e: React.MouseEvent) => {
         e.stopPropagation();
         if (nodeData.isLocked) return;
-        updateNodeData(id, { imageUrl: undefined, fileName: undefined, output: undefined, status: 'idle' });
+        updateNodeData(id, { imageUrl: undefined, imageUrls: undefined, fileName: undefined, output: undefined, status: 'idle' });
     };
 
     return (
@@ -226,6 +245,7 @@ function UploadImageNodeComponent({ id, data, selected }: NodeProps) {
                     ${selected ? 'bg-[#2B2B2F] ring-2 ring-inset ring-[#333337]' : 'bg-[#212126]'}
                     ${isExecuting ? 'ring-2 ring-[#F7FFA8]/50 node-executing' : ''}
                     ${nodeData.status === 'error' ? 'ring-2 ring-red-500' : ''}
+                    ${nodeData.status === 'skipped' ? 'opacity-50' : ''}
                 `}
             >
                 {/* Header */}
@@ -248,6 +268,7 @@ function UploadImageNodeComponent({ id, data, selected }: NodeProps) {
                             onRename={() => { setIsMenuOpen(false); setIsRenameModalOpen(true); }}
                             onLock={handleLock}
                             onDelete={handleDelete}
+                            onRunFromHere={() => requestRunFromNode(id)}
                             isLocked={nodeData.isLocked}
                         />
                     </div>
@@ -285,16 +306,33 @@ function UploadImageNodeComponent({ id, data, selected }: NodeProps) {
                                     <img src={localPreviewUrl} alt="preview" className="absolute inset-0 w-full h-full object-cover opacity-40" />
                                 )}
                                 <Loader2 className="w-8 h-8 text-[#C084FC] animate-spin mb-3 relative z-10" />
-                                <p className="text-sm text-gray-400 relative z-10">Uploading to Transloadit...</p>
+                                <p className="text-sm text-gray-400 relative z-10">
+                                    {pendingFiles.length > 1
+                                        ? `Uploading ${uploadedCount + 1} of ${pendingFiles.length} to Transloadit...`
+                                        : 'Uploading to Transloadit...'}
+                                </p>
                             </div>
                         ) : displayUrl ? (
                             <div className="relative w-full h-full group/image">
-                                <img
-                                    src={displayUrl}
-                                    alt={nodeData.fileName}
-                                    className="w-full h-full object-cover"
-                                />
-                                {nodeData.status === 'error' && pendingFile && (
+                                {!localPreviewUrl && nodeData.imageUrls && nodeData.imageUrls.length > 1 ? (
+                                    <div className="grid grid-cols-3 gap-1 w-full h-full overflow-y-auto content-start">
+                                        {nodeData.imageUrls.map((url, index) => (
+                                            <img
+                                                key={`${index}-${url}`}
+                                                src={url}
+                                                alt={`Image ${index + 1}`}
+                                                className="w-full aspect-square object-cover"
+                                            />
+                                        ))}
+                                    </div>
+                                ) : (
+                                    <img
+                                        src={displayUrl}
+                                        alt={nodeData.fileName}
+                                        className="w-full h-full object-cover"
+                                    />
+                                )}
+                                {nodeData.status === 'error' && pendingFiles.length > 0 && (
                                     <div className="absolute inset-0 bg-black/60 flex flex-col items-center justify-center gap-2 z-10">
                                         <p className="text-red-400 text-xs px-4 text-center">{nodeData.error || 'Upload failed'}</p>
                                         <button
@@ -328,7 +366,10 @@ function UploadImageNodeComponent({ id, data, selected }: NodeProps) {
                                 <input {...getInputProps()} />
                                 <Upload className="w-6 h-6 text-[#E1E1E1] mb-3" />
                                 <p className="text-[#E1E1E1] text-[14px] font-medium">
-                                    {isDragActive ? 'Drop file here' : 'Drag & drop or click to upload'}
+                                    {isDragActive ? 'Drop files here' : 'Drag & drop or click to upload'}
+                                </p>
+                                <p className="text-[#8B8B8F] text-[12px] mt-1">
+                                    Several images make a list; nodes downstream run once per image
                                 </p>
                             </div>
                         );
@@ -340,7 +381,7 @@ function UploadImageNodeComponent({ id, data, selected }: NodeProps) {
                         type="text"
                         placeholder="Paste a file link"
                         value={nodeData.imageUrl || ''}
-                        onChange={(e) => updateNodeData(id, { imageUrl: e.target.value, output: e.target.value })}
+                        onChange={(e) => updateNodeData(id, { imageUrl: e.target.value, imageUrls: undefined, output: e.target.value })}
                         onKeyDown={(e) => e.stopPropagation()}
                         className={`
                             w-full bg-[#212126] rounded-sm px-3 py-2
@@ -7,6 +7,7 @@ import { UploadVideoNodeData } from '@/types/nodes';
 import { useWorkflowStore } from '@/stores/workflow-store';
 import { useDropzone } from 'react-dropzone';
 import { NodeContextMenu } from '../ui/NodeContextMenu';
+import { requestRunFromNode } from '@/lib/workflow-engine/run-status';
 import { RenameModal } from '../ui/RenameModal';
 
 function UploadVideoNodeComponent({ id, data, selected }: NodeProps) {
@@ -179,6 +180,7 @@ function UploadVideoNodeComponent({ id, data, selected }: NodeProps) {
                     ${selected ? 'bg-[#2B2B2F] ring-2 ring-inset ring-[#333337]' : 'bg-[#212126]'}
                     ${isExecuting ? 'ring-2 ring-[#F7FFA8]/50 node-executing' : ''}
                     ${nodeData.status === 'error' ? 'ring-2 ring-red-500' : ''}
+                    ${nodeData.status === 'skipped' ? 'opacity-50' : ''}
                     ${nodeData.videoUrl ? 'min-w-[300px] max-w-[600px] w-fit' : 'min-w-[460px] w-[460px]'}
                 `}
             >
@@ -202,6 +204,7 @@ function UploadVideoNodeComponent({ id, data, selected }: NodeProps) {
                             onRename={() => { setIsMenuOpen(false); setIsRenameModalOpen(true); }}
                             onLock={handleLock}
                             onDelete={handleDelete}
+                            onRunFromHere={() => requestRunFromNode(id)}
                             isLocked={nodeData.isLocked}
                         />
                     </div>
@@ -1,5 +1,5 @@
 import { motion, AnimatePresence } from 'framer-motion';
-import { Copy, Edit2, Lock, Trash2, X } from 'lucide-react';
+import { Copy, Edit2, Lock, Play, Trash2, X } from 'lucide-react';
 import { useViewport } from '@xyflow/react';
 import { useEffect, useRef } from 'react';
 
@@ -11,6 +11,8 @@ interface NodeContextMenuProps {
     onRename: () => void;
     onLock: () => void;
     onDelete: () => void;
+    // Re-run this node and its descendants with upstream outputs from the last run
+    onRunFromHere?: () => void;
     isLocked?: boolean;
 }
 
@@ -22,6 +24,7 @@ export function NodeContextMenu({
     onRename,
     onLock,
     onDelete,
+    onRunFromHere,
     isLocked
 }: NodeContextMenuProps) {
     const { zoom } = useViewport();
@@ -84,6 +87,16 @@ export function NodeContextMenu({
                     label={isLocked ? "Unlock" : "Lock"}
                     onClick={onLock}
                 />
+                {onRunFromHere && (
+                    <MenuItem
+                        icon={Play}
+                        label="Run from here"
+                        onClick={() => {
+                            onRunFromHere();
+                            onClose();
+                        }}
+                    />
+                )}
                 <div className="h-[1px] bg-[#2B2B2F] my-0.5 mx-1" />
                 <MenuItem
                     icon={Trash2}
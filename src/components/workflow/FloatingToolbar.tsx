@@ -1,20 +1,36 @@
 'use client';
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import {
     ChevronDown,
     Play,
     Loader2,
     Minus,
     Plus,
-    Maximize
+    Maximize,
+    Square
 } from 'lucide-react';
 import { useReactFlow } from '@xyflow/react';
+import { toast } from 'sonner';
 import { useWorkflowStore } from '@/stores/workflow-store';
 import { useCanvasToolStore, CanvasTool } from '@/stores/canvas-tool-store';
+import type { FailurePolicy } from '@/lib/workflow-engine/events';
+import { getWorkflowInputs } from '@/lib/workflow-engine/workflow-inputs';
+
+const FAILURE_POLICY_OPTIONS: { value: FailurePolicy; label: string }[] = [
+    { value: 'SKIP_DEPENDENTS', label: 'Skip dependents' },
+    { value: 'STOP_ALL', label: 'Stop all' },
+    { value: 'CONTINUE', label: 'Continue' },
+];
+
+export interface RunOptions {
+    forceRerun?: boolean;
+    // Values for the workflow's declared inputs, by input name
+    inputs?: Record<string, string>;
+}
 
 interface FloatingToolbarProps {
-    onRun?: (scope: 'full' | 'selected' | 'single') => Promise<void>;
+    onRun?: (scope: 'full' | 'selected' | 'single', options?: RunOptions) => Promise<void>;
     isExecuting?: boolean;
 }
 
@@ -34,6 +50,20 @@ export default function FloatingToolbar({ onRun, isExecuting = false }: Floating
     const canRedo = useWorkflowStore((state) => state.canRedo());
     const selectedNodeIds = useWorkflowStore((state) => state.selectedNodeIds);
     const nodes = useWorkflowStore((state) => state.nodes);
+    const failurePolicy = useWorkflowStore((state) => state.failurePolicy);
+    const setFailurePolicy = useWorkflowStore((state) => state.setFailurePolicy);
+    const activeRunId = useWorkflowStore((state) => state.activeRunId);
+    const cancelRun = useWorkflowStore((state) => state.cancelRun);
+    const [isStopping, setIsStopping] = useState(false);
+    // Applies to the next run only
+    const [forceRerun, setForceRerun] = useState(false);
+    const [inputValues, setInputValues] = useState<Record<string, string>>({});
+
+    // Declared workflow inputs, one field per name
+    const workflowInputs = useMemo(() => {
+        const seen = new Set<string>();
+        return getWorkflowInputs(nodes).filter(input => !seen.has(input.name) && seen.add(input.name));
+    }, [nodes]);
 
     // Update zoom level display
     React.useEffect(() => {
@@ -85,10 +115,30 @@ export default function FloatingToolbar({ onRun, isExecuting = false }: Floating
 
     const handleRun = useCallback(async (scope: 'full' | 'selected' | 'single') => {
         setShowRunMenu(false);
+        setForceRerun(false);
+
+        // Inputs left empty keep the node's own value
+        const inputs = Object.fromEntries(
+            workflowInputs
+                .filter(input => inputValues[input.name]?.trim())
+                .map(input => [input.name, inputValues[input.name].trim()])
+        );
+
         if (onRun) {
-            await onRun(scope);
+            await onRun(scope, { forceRerun, inputs: Object.keys(inputs).length > 0 ? inputs : undefined });
+        }
+    }, [onRun, forceRerun, workflowInputs, inputValues]);
+
+    const handleStop = useCallback(async () => {
+        setIsStopping(true);
+        try {
+            await cancelRun();
+        } catch {
+            toast.error('Failed to stop the run');
+        } finally {
+            setIsStopping(false);
         }
-    }, [onRun]);
+    }, [cancelRun]);
 
     return (
         <div className="floating-toolbar absolute bottom-[-4px] left-1/2 -translate-x-1/2 flex items-center gap-2 bg-[#212126] border border-[#2C2C2E] rounded-lg p-1.5 shadow-xl z-50">
@@ -150,7 +200,7 @@ export default function FloatingToolbar({ onRun, isExecuting = false }: Floating
             <div className="w-px h-5.5 bg-[#C5C5C5]" />
 
             {/* Run Controls */}
-            <div className="relative">
+            <div className="relative flex items-center">
                 <button
                     onClick={() => setShowRunMenu(!showRunMenu)}
                     disabled={isExecuting || nodes.length === 0}
@@ -171,9 +221,23 @@ export default function FloatingToolbar({ onRun, isExecuting = false }: Floating
                     )}
                 </button>
 
+                {/* Stop the in-progress run */}
+                {isExecuting && (
+                    <button
+                        onClick={handleStop}
+                        disabled={!activeRunId || isStopping}
+                        className="ml-1 flex items-center gap-1.5 px-3 py-1.5 bg-[#2C2C2E] hover:bg-[#3A3A3C] text-white rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-xs font-medium"
+                        style={{ fontFamily: 'var(--font-dm-mono), "DM Mono", monospace' }}
+                        title="Stop run"
+                    >
+                        <Square className="w-3 h-3 fill-current" />
+                        {isStopping ? 'Stopping...' : 'Stop'}
+                    </button>
+                )}
+
                 {/* Run Menu Dropdown */}
                 {showRunMenu && !isExecuting && (
-                    <div className="absolute bottom-full mb-2 left-0 bg-[#1C1C1E] border border-[#2C2C2E] rounded-lg shadow-xl overflow-hidden min-w-[200px]">
+                    <div className="absolute bottom-full mb-2 left-0 bg-[#1C1C1E] border border-[#2C2C2E] rounded-lg shadow-xl overflow-hidden min-w-[260px]">
                         <button
                             onClick={() => handleRun('full')}
                             className="w-full px-4 py-2.5 text-left text-white hover:bg-[#2C2C2E] transition-colors text-xs flex items-center justify-between group"
@@ -194,6 +258,55 @@ export default function FloatingToolbar({ onRun, isExecuting = false }: Floating
                                 <span className="ml-2 text-[#F7FFA8]">({selectedNodeIds.length})</span>
                             )}
                         </button>
+
+                        {/* Failure policy for the next run */}
+                        <div className="border-t border-[#2C2C2E] px-4 py-2.5">
+                            <div className="text-[10px] text-gray-500 uppercase tracking-wide mb-1.5">On node failure</div>
+                            <div className="flex gap-1">
+                                {FAILURE_POLICY_OPTIONS.map((option) => (
+                                    <button
+                                        key={option.value}
+                                        onClick={() => setFailurePolicy(option.value)}
+                                        className={`flex-1 px-1.5 py-1 rounded text-[10px] transition-colors whitespace-nowrap ${failurePolicy === option.value
+                                            ? 'bg-[#E1E476] text-black'
+                                            : 'bg-[#0E0E10] text-gray-400 hover:text-white'
+                                            }`}
+                                    >
+                                        {option.label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        {/* Values for the workflow's inputs, overriding the nodes for this run */}
+                        {workflowInputs.length > 0 && (
+                            <div className="border-t border-[#2C2C2E] px-4 py-2.5 space-y-1.5">
+                                <div className="text-[10px] text-gray-500 uppercase tracking-wide">Inputs</div>
+                                {workflowInputs.map((input) => (
+                                    <label key={input.name} className="flex items-center justify-between gap-2 text-xs text-gray-400">
+                                        <span className="truncate">{input.name}</span>
+                                        <input
+                                            type="text"
+                                            value={inputValues[input.name] ?? ''}
+                                            onChange={(e) => setInputValues(values => ({ ...values, [input.name]: e.target.value }))}
+                                            placeholder={input.type === 'text' ? 'Node text' : `${input.type} URL`}
+                                            className="w-36 bg-[#0E0E10] border border-[#2C2C2E] rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-gray-500"
+                                        />
+                                    </label>
+                                ))}
+                            </div>
+                        )}
+
+                        {/* Skip the node output cache for the next run */}
+                        <label className="border-t border-[#2C2C2E] px-4 py-2.5 flex items-center gap-2 text-xs text-white cursor-pointer hover:bg-[#2C2C2E]">
+                            <input
+                                type="checkbox"
+                                checked={forceRerun}
+                                onChange={(e) => setForceRerun(e.target.checked)}
+                                className="accent-[#E1E476]"
+                            />
+                            Force re-run (ignore cache)
+                        </label>
                     </div>
                 )}
             </div>
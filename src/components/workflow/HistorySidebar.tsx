@@ -10,26 +10,51 @@ import {
     Clock,
     Loader2,
     Circle,
+    MinusCircle,
+    Ban,
+    RotateCcw,
+    MessageSquare,
     X
 } from 'lucide-react';
+import { toast } from 'sonner';
+import { requestRunFromNode } from '@/lib/workflow-engine/run-status';
+import type { NodeItemResult } from '@/lib/workflow-engine/events';
+import type { ChatMessage } from '@/types/nodes';
 
 interface NodeResultDisplay {
     id: string;
     nodeId: string;
     nodeType: string;
-    status: 'SUCCESS' | 'FAILED' | 'RUNNING' | 'PENDING';
+    status: 'SUCCESS' | 'FAILED' | 'RUNNING' | 'PENDING' | 'SKIPPED';
     duration?: number;
     output?: unknown;
     error?: string;
     input?: unknown;
+    cacheHit?: boolean;
+    attempts?: { attempt: number; duration: number; error?: string }[];
+    // LLM usage, when the node made requests
+    model?: string | null;
+    promptTokens?: number | null;
+    completionTokens?: number | null;
+    cost?: number | null;
+    // Chat-mode LLM nodes: the conversation ending in this output
+    messages?: ChatMessage[] | null;
+    // Nodes fed a list: one result per item
+    items?: NodeItemResult[] | null;
 }
 
 interface WorkflowRunDisplay {
     id: string;
-    status: 'SUCCESS' | 'FAILED' | 'RUNNING' | 'PARTIAL';
-    scope: 'FULL' | 'PARTIAL' | 'SINGLE';
+    status: 'SUCCESS' | 'FAILED' | 'RUNNING' | 'PARTIAL' | 'CANCELLED';
+    scope: 'FULL' | 'PARTIAL' | 'SINGLE' | 'FROM_NODE';
+    triggerSource?: 'MANUAL' | 'SCHEDULED';
     startedAt: string;
     duration?: number;
+    inputs?: Record<string, string> | null;
+    version?: { version: number } | null;
+    promptTokens?: number;
+    completionTokens?: number;
+    cost?: number;
     nodeResults: NodeResultDisplay[];
 }
 
@@ -42,6 +67,17 @@ interface HistorySidebarProps {
 // Node types whose output is a URL that should never be truncated
 const IMAGE_NODE_TYPES = ['cropImage', 'extractFrame', 'uploadImage', 'crop_image', 'extract_frame', 'upload_image'];
 
+// Token counts as 950 / 12.3k
+function formatTokens(tokens: number): string {
+    return tokens < 1000 ? String(tokens) : `${(tokens / 1000).toFixed(1)}k`;
+}
+
+// Estimated USD cost; small amounts keep enough digits to be told apart
+function formatCost(cost: number): string {
+    if (cost === 0) return '$0';
+    return cost >= 0.01 ? `$${cost.toFixed(2)}` : `$${cost.toPrecision(2)}`;
+}
+
 // Helper to extract a display-friendly output string
 function formatNodeOutput(output: unknown, nodeType: string): string | null {
     if (!output) return null;
@@ -73,6 +109,16 @@ function formatNodeOutput(output: unknown, nodeType: string): string | null {
     return String(output);
 }
 
+// A node's results item by item: the items it ran over, or the items of a
+// list it produced (a multi-image upload, a Prompt split into lines)
+function getItemResults(node: NodeResultDisplay): Pick<NodeItemResult, 'index' | 'status' | 'output' | 'error' | 'duration'>[] {
+    if (node.items && node.items.length > 0) return node.items;
+    if (node.status === 'SUCCESS' && Array.isArray(node.output)) {
+        return node.output.map((output, index) => ({ index, status: 'SUCCESS', output, duration: 0 }));
+    }
+    return [];
+}
+
 // Check if the output is an image URL.
 // When nodeType is a known image-producing node, always treat the output as an image.
 function isImageUrl(output: unknown, nodeType?: string): string | null {
@@ -170,6 +216,26 @@ export function HistorySidebar({ workflowId, isOpen, onClose }: HistorySidebarPr
         });
     };
 
+    // Put the conversation a chat node had in this run back on the canvas
+    const restoreConversation = (node: NodeResultDisplay) => {
+        const { nodes, updateNodeData, saveToHistory } = useWorkflowStore.getState();
+        if (!node.messages || !nodes.some(n => n.id === node.nodeId)) {
+            toast.error('That node is no longer in the workflow');
+            return;
+        }
+
+        const reply = node.messages.at(-1)?.content ?? '';
+        updateNodeData(node.nodeId, {
+            chatMode: true,
+            messages: node.messages,
+            response: reply,
+            output: reply,
+            status: 'success',
+        });
+        saveToHistory();
+        toast.success('Conversation restored');
+    };
+
     const handleClearAll = async () => {
         if (!effectiveWorkflowId || effectiveWorkflowId === 'new') return;
         try {
@@ -198,6 +264,20 @@ export function HistorySidebar({ workflowId, isOpen, onClose }: HistorySidebarPr
         }
     };
 
+    const handleStopRun = async (runId: string) => {
+        if (!effectiveWorkflowId || effectiveWorkflowId === 'new') return;
+        try {
+            const response = await fetch(`/api/workflows/${effectiveWorkflowId}/runs/${runId}/cancel`, {
+                method: 'POST',
+            });
+            if (response.ok) {
+                setRuns(prevRuns => prevRuns.map(r => r.id === runId ? { ...r, status: 'CANCELLED' } : r));
+            }
+        } catch (error) {
+            console.error('Failed to stop run:', error);
+        }
+    };
+
     if (!isOpen) return null;
 
     return (
@@ -260,16 +340,30 @@ export function HistorySidebar({ workflowId, isOpen, onClose }: HistorySidebarPr
                                             <XCircle className="w-[18px] h-[18px] text-[#EF9192]" strokeWidth={1.5} />
                                         ) : run.status === 'RUNNING' ? (
                                             <Loader2 className="w-[18px] h-[18px] text-[#A855F7] animate-spin" strokeWidth={1.5} />
+                                        ) : run.status === 'CANCELLED' ? (
+                                            <Ban className="w-[18px] h-[18px] text-[#828282]" strokeWidth={1.5} />
                                         ) : (
                                             <Circle className="w-[18px] h-[18px] text-[#828282]" strokeWidth={1.5} />
                                         )}
                                         <div className="flex flex-col">
                                             <span className="text-[9pt] text-[#E5E5E5] font-normal tracking-wide">
                                                 Run #{run.id.slice(-8)}
+                                                {run.version && (
+                                                    <span className="text-[#6B7280]"> · v{run.version.version}</span>
+                                                )}
+                                                {run.triggerSource === 'SCHEDULED' && (
+                                                    <span className="ml-1.5 px-1.5 py-0.5 rounded bg-[#2A2A2D] text-[8pt] text-[#A0A0A0]">Scheduled</span>
+                                                )}
                                             </span>
                                             {run.duration && (
                                                 <span className="text-[8pt] text-[#6B7280] mt-0.5">
-                                                    {(run.duration / 1000).toFixed(1)}s · {run.scope.toLowerCase()}
+                                                    {(run.duration / 1000).toFixed(1)}s · {run.scope.toLowerCase().replace('_', ' ')}
+                                                    {!!(run.promptTokens || run.completionTokens) && (
+                                                        <span title={`${run.promptTokens} prompt + ${run.completionTokens} completion tokens`}>
+                                                            {' '}· {formatTokens((run.promptTokens ?? 0) + (run.completionTokens ?? 0))} tokens
+                                                            {!!run.cost && ` · ${formatCost(run.cost)}`}
+                                                        </span>
+                                                    )}
                                                 </span>
                                             )}
                                         </div>
@@ -282,6 +376,17 @@ export function HistorySidebar({ workflowId, isOpen, onClose }: HistorySidebarPr
                                             }`}>
                                             {run.status.toLowerCase()}
                                         </span>
+                                        {isExecuting && run.status === 'RUNNING' && (
+                                            <button
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    handleStopRun(run.id);
+                                                }}
+                                                className="ml-6 text-[9pt] font-normal text-[#EF9192] hover:text-[#F5B5B6] transition-colors"
+                                            >
+                                                Stop
+                                            </button>
+                                        )}
                                         <button
                                             onClick={(e) => {
                                                 e.stopPropagation();
@@ -295,9 +400,20 @@ export function HistorySidebar({ workflowId, isOpen, onClose }: HistorySidebarPr
                                 </div>
                                 {expandedRuns.has(run.id) && run.nodeResults && run.nodeResults.length > 0 && (
                                     <div className="pl-[52px] pr-3 py-1 space-y-3 mb-2">
+                                        {/* Workflow input values this run was given */}
+                                        {run.inputs && Object.keys(run.inputs).length > 0 && (
+                                            <div className="space-y-0.5">
+                                                {Object.entries(run.inputs).map(([name, value]) => (
+                                                    <div key={name} className="text-[11px] text-[#6B7280] truncate" title={value}>
+                                                        <span className="text-[#A0A0A0]">{name}</span> = {value}
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        )}
                                         {run.nodeResults.map((node) => {
                                             const outputText = formatNodeOutput(node.output, node.nodeType);
                                             const imageUrl = isImageUrl(node.output, node.nodeType);
+                                            const itemResults = getItemResults(node);
 
                                             return (
                                                 <div key={node.id} className="space-y-1.5">
@@ -310,23 +426,125 @@ export function HistorySidebar({ workflowId, isOpen, onClose }: HistorySidebarPr
                                                                 <XCircle className="w-[14px] h-[14px] text-[#EF9192]" strokeWidth={1.5} />
                                                             ) : node.status === 'RUNNING' ? (
                                                                 <Loader2 className="w-[14px] h-[14px] text-[#A855F7] animate-spin" strokeWidth={1.5} />
+                                                            ) : node.status === 'SKIPPED' ? (
+                                                                <MinusCircle className="w-[14px] h-[14px] text-[#828282]" strokeWidth={1.5} />
                                                             ) : (
                                                                 <Circle className="w-[14px] h-[14px] text-[#828282]" strokeWidth={1.5} />
                                                             )}
                                                             <span className="text-[12px] text-[#A0A0A0] capitalize font-medium">
                                                                 {node.nodeType.replace(/([A-Z])/g, ' $1').trim()}
                                                             </span>
+                                                            {node.cacheHit && (
+                                                                <span
+                                                                    className="px-1.5 py-0.5 rounded bg-[#2C2C2E] text-[10px] text-[#E1E476]"
+                                                                    title="Output reused from an earlier run with the same inputs"
+                                                                >
+                                                                    cached
+                                                                </span>
+                                                            )}
+                                                        </div>
+                                                        <div className="flex items-center gap-2">
+                                                            {node.attempts && node.attempts.length > 1 && (
+                                                                <span
+                                                                    className="text-[12px] text-[#6B7280] font-medium"
+                                                                    title={node.attempts
+                                                                        .map(a => `#${a.attempt}: ${a.error || 'ok'} (${(a.duration / 1000).toFixed(1)}s)`)
+                                                                        .join('\n')}
+                                                                >
+                                                                    {node.attempts.length} attempts
+                                                                </span>
+                                                            )}
+                                                            {node.model && (
+                                                                <span
+                                                                    className="text-[12px] text-[#6B7280] font-medium"
+                                                                    title={`${node.model}\n${node.promptTokens ?? 0} prompt + ${node.completionTokens ?? 0} completion tokens${node.cost != null ? `\n≈ ${formatCost(node.cost)}` : ''}`}
+                                                                >
+                                                                    {formatTokens((node.promptTokens ?? 0) + (node.completionTokens ?? 0))} tok
+                                                                </span>
+                                                            )}
+                                                            {node.duration !== undefined && node.duration > 0 && (
+                                                                <span className="text-[12px] text-[#6B7280] flex items-center gap-1.5 font-medium">
+                                                                    <Clock className="w-3 h-3" />
+                                                                    {(node.duration / 1000).toFixed(1)}s
+                                                                </span>
+                                                            )}
+                                                            {/* Re-run this node and its descendants on this run's upstream outputs */}
+                                                            {run.status !== 'RUNNING' && !isExecuting && (
+                                                                <button
+                                                                    onClick={() => requestRunFromNode(node.nodeId, run.id)}
+                                                                    className="p-0.5 rounded text-[#6B7280] hover:text-white hover:bg-[#2C2C2E] transition-colors"
+                                                                    title="Run from here using this run's upstream outputs"
+                                                                >
+                                                                    <RotateCcw className="w-3 h-3" />
+                                                                </button>
+                                                            )}
+                                                            {node.messages && node.messages.length > 0 && run.status !== 'RUNNING' && !isExecuting && (
+                                                                <button
+                                                                    onClick={() => restoreConversation(node)}
+                                                                    className="p-0.5 rounded text-[#6B7280] hover:text-white hover:bg-[#2C2C2E] transition-colors"
+                                                                    title="Restore this conversation on the node"
+                                                                >
+                                                                    <MessageSquare className="w-3 h-3" />
+                                                                </button>
+                                                            )}
                                                         </div>
-                                                        {node.duration !== undefined && node.duration > 0 && (
-                                                            <span className="text-[12px] text-[#6B7280] flex items-center gap-1.5 font-medium">
-                                                                <Clock className="w-3 h-3" />
-                                                                {(node.duration / 1000).toFixed(1)}s
-                                                            </span>
-                                                        )}
                                                     </div>
 
+                                                    {/* Chat conversation, ending in this run's reply */}
+                                                    {node.status === 'SUCCESS' && node.messages && node.messages.length > 0 && (
+                                                        <div className="ml-[26px] space-y-1">
+                                                            {node.messages.map((message, index) => (
+                                                                <p key={index} className="text-[11px] text-[#6B7280] leading-relaxed break-words">
+                                                                    <span className={message.role === 'user' ? 'text-[#A0A0A0]' : 'text-[#E1E476]'}>
+                                                                        {message.role === 'user' ? 'You' : 'Model'}:
+                                                                    </span>{' '}
+                                                                    {message.content.length > 200 ? message.content.substring(0, 200) + '...' : message.content}
+                                                                </p>
+                                                            ))}
+                                                        </div>
+                                                    )}
+
+                                                    {/* One row per item of a list the node ran over or produced */}
+                                                    {itemResults.length > 0 && (
+                                                        <div className="ml-[26px] space-y-1.5">
+                                                            {itemResults.map((item) => {
+                                                                const itemText = formatNodeOutput(item.output, node.nodeType);
+                                                                const itemImageUrl = isImageUrl(item.output, node.nodeType);
+
+                                                                return (
+                                                                    <div key={item.index} className="flex items-start gap-2">
+                                                                        {item.status === 'SUCCESS' ? (
+                                                                            <CheckCircle className="w-3 h-3 mt-0.5 shrink-0 text-[#6B7280]" strokeWidth={1.5} />
+                                                                        ) : (
+                                                                            <XCircle className="w-3 h-3 mt-0.5 shrink-0 text-[#EF9192]" strokeWidth={1.5} />
+                                                                        )}
+                                                                        <span className="text-[11px] text-[#A0A0A0] shrink-0">#{item.index + 1}</span>
+                                                                        <div className="min-w-0 flex-1">
+                                                                            {item.status === 'FAILED' ? (
+                                                                                <p className="text-[11px] text-[#EF9192] leading-relaxed break-words">{item.error}</p>
+                                                                            ) : itemImageUrl ? (
+                                                                                <img
+                                                                                    src={itemImageUrl}
+                                                                                    alt={`${node.nodeType} item ${item.index + 1}`}
+                                                                                    className="max-w-[120px] max-h-[60px] rounded border border-[#2C2C2E] object-cover"
+                                                                                />
+                                                                            ) : (
+                                                                                <p className="text-[11px] text-[#6B7280] leading-relaxed break-all">{itemText}</p>
+                                                                            )}
+                                                                        </div>
+                                                                        {item.duration > 0 && (
+                                                                            <span className="text-[11px] text-[#6B7280] shrink-0">
+                                                                                {(item.duration / 1000).toFixed(1)}s
+                                                                            </span>
+                                                                        )}
+                                                                    </div>
+                                                                );
+                                                            })}
+                                                        </div>
+                                                    )}
+
                                                     {/* Node output display */}
-                                                    {node.status === 'SUCCESS' && outputText && (
+                                                    {node.status === 'SUCCESS' && outputText && !node.messages?.length && itemResults.length === 0 && (
                                                         <div className="ml-[26px]">
                                                             {/* Image thumbnail for image outputs */}
                                                             {imageUrl && (
@@ -365,6 +583,15 @@ export function HistorySidebar({ workflowId, isOpen, onClose }: HistorySidebarPr
                                                             </p>
                                                         </div>
                                                     )}
+
+                                                    {/* Skip reason */}
+                                                    {node.status === 'SKIPPED' && node.error && (
+                                                        <div className="ml-[26px]">
+                                                            <p className="text-[11px] text-[#6B7280] leading-relaxed">
+                                                                {node.error}
+                                                            </p>
+                                                        </div>
+                                                    )}
                                                 </div>
                                             );
                                         })}
@@ -16,20 +16,37 @@ import {
     Loader2
 } from 'lucide-react';
 import { toast } from 'sonner';
-import { useRef, useState } from 'react';
-import { LLMNodeData } from '@/types/nodes';
-
-const MODELS = [
-    // Groq models (free tier, currently active)
-    { id: 'groq:meta-llama/llama-4-scout-17b-16e-instruct', name: '⚡👁 Llama 4 Scout 17B (Groq)' },
-    { id: 'groq:meta-llama/llama-4-maverick-17b-128e-instruct', name: '⚡ Llama 4 Maverick 17B (Groq)' },
-    { id: 'groq:llama-3.1-8b-instant', name: '⚡ Llama 3.1 8B Instant (Groq)' },
-    { id: 'groq:qwen/qwen3-32b', name: '⚡ Qwen 3 32B (Groq)' },
-    // Gemini models (free tier)
-    { id: 'gemini-2.0-flash', name: 'Gemini 2.0 Flash' },
-    { id: 'gemini-2.0-flash-lite', name: 'Gemini 2.0 Flash Lite' },
-    { id: 'gemini-1.5-flash', name: 'Gemini 1.5 Flash' },
-];
+import { useEffect, useRef, useState } from 'react';
+import { Node, Edge } from '@xyflow/react';
+import { LLMNodeData, NodeType, RetryBackoff, WorkflowNodeData } from '@/types/nodes';
+import { getRetryPolicy } from '@/lib/workflow-engine/retry';
+import { describeBlockingIssues, getBlockingIssues } from '@/lib/workflow-engine/validation';
+import { WORKFLOW_INPUT_TARGETS } from '@/lib/workflow-engine/workflow-inputs';
+import { createWorkflowExport, downloadWorkflowExport, importWorkflowFile } from '@/lib/workflow-export';
+import { DEFAULT_LLM_MODEL, LLM_PROVIDERS, parseJsonSchema } from '@/lib/llm';
+
+// A provider's entry in GET /api/models
+interface ModelGroup {
+    id: string;
+    name: string;
+    configured: boolean;
+    models: { id: string; name: string }[];
+}
+
+// Starting point when JSON output is switched on
+const DEFAULT_JSON_SCHEMA = JSON.stringify({
+    type: 'object',
+    properties: {
+        title: { type: 'string' },
+        summary: { type: 'string' },
+    },
+    required: ['title', 'summary'],
+}, null, 2);
+
+// Built-in models, shown until /api/models answers
+const BUILT_IN_MODEL_GROUPS: ModelGroup[] = LLM_PROVIDERS
+    .filter(provider => provider.models.length > 0)
+    .map(({ id, name, models }) => ({ id, name, configured: true, models }));
 
 export default function PropertiesSidebar() {
     const params = useParams();
@@ -45,13 +62,23 @@ export default function PropertiesSidebar() {
     const setEdges = useWorkflowStore((state) => state.setEdges);
     const saveWorkflow = useWorkflowStore((state) => state.saveWorkflow);
     const setExecuting = useWorkflowStore((state) => state.setExecuting);
+    const sendChatMessage = useWorkflowStore((state) => state.sendChatMessage);
     const { toggleHistory, isHistoryOpen } = useUIStore();
 
     // Internal state for run configuration
     const [runCount, setRunCount] = useState(1);
     const [isSaving, setIsSaving] = useState(false);
+    const [modelGroups, setModelGroups] = useState<ModelGroup[]>(BUILT_IN_MODEL_GROUPS);
+    const [followUp, setFollowUp] = useState('');
     const fileInputRef = useRef<HTMLInputElement>(null);
 
+    useEffect(() => {
+        fetch('/api/models')
+            .then(response => response.ok ? response.json() : null)
+            .then(result => { if (result?.providers) setModelGroups(result.providers); })
+            .catch(error => console.error('Failed to fetch models:', error));
+    }, []);
+
     const selectedNode = nodes.find(n => n.id === selectedNodeIds[0]);
 
     // ... (Hooks for specific node logic remain same, skipping to header implementation)
@@ -71,25 +98,7 @@ export default function PropertiesSidebar() {
     };
 
     const handleExport = () => {
-        const data = {
-            workflow: {
-                name: workflowName,
-                nodes,
-                edges,
-            },
-            version: '1.0.0',
-            exportedAt: new Date().toISOString(),
-        };
-
-        const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = `${workflowName.replace(/\s+/g, '-').toLowerCase() || 'workflow'}.json`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
+        downloadWorkflowExport(createWorkflowExport({ name: workflowName, nodes, edges }));
         toast.success('Workflow exported to JSON');
     };
 
@@ -102,22 +111,16 @@ export default function PropertiesSidebar() {
         if (!file) return;
 
         const reader = new FileReader();
-        reader.onload = (event) => {
+        reader.onload = async (event) => {
             try {
-                const content = event.target?.result as string;
-                const data = JSON.parse(content);
-
-                if (data.workflow && Array.isArray(data.workflow.nodes) && Array.isArray(data.workflow.edges)) {
-                    setNodes(data.workflow.nodes);
-                    setEdges(data.workflow.edges);
-                    if (data.workflow.name) setWorkflowName(data.workflow.name);
-                    toast.success('Workflow imported successfully');
-                } else {
-                    toast.error('Invalid workflow JSON format');
-                }
+                const workflow = await importWorkflowFile(event.target?.result as string);
+                setNodes(workflow.nodes as Node<WorkflowNodeData>[]);
+                setEdges(workflow.edges as Edge[]);
+                if (workflow.name) setWorkflowName(workflow.name);
+                toast.success('Workflow imported successfully');
             } catch (error) {
                 console.error('Import failed:', error);
-                toast.error('Failed to parse workflow file');
+                toast.error(error instanceof Error ? error.message : 'Failed to import workflow');
             }
         };
         reader.readAsText(file);
@@ -128,10 +131,12 @@ export default function PropertiesSidebar() {
     if (!selectedNode || selectedNodeIds.length !== 1) {
         return null;
     }
-    if (selectedNode.type !== 'llm') {
-        return null;
-    }
+    const isLLM = selectedNode.type === 'llm';
     const data = selectedNode.data as LLMNodeData;
+    const retryPolicy = getRetryPolicy(data);
+    const model = data.model || DEFAULT_LLM_MODEL;
+    const jsonSchemaError = isLLM && data.outputMode === 'json' ? getJsonSchemaError(data.jsonSchema) : null;
+    const inputTarget = WORKFLOW_INPUT_TARGETS[selectedNode.type as NodeType];
 
     // ... (Change handlers - keeping existing ones, just ensuring they avail in scope)
     const handleModelChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
@@ -143,6 +148,59 @@ export default function PropertiesSidebar() {
     const handleTemperatureChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         updateNodeData(selectedNode.id, { temperature: parseFloat(e.target.value) });
     };
+    const handleMaxTokensChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const maxTokens = parseInt(e.target.value, 10);
+        updateNodeData(selectedNode.id, { maxTokens: maxTokens > 0 ? maxTokens : undefined });
+    };
+    const handleTopPChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const topP = parseFloat(e.target.value);
+        updateNodeData(selectedNode.id, { topP: topP >= 0 && topP <= 1 ? topP : undefined });
+    };
+    const handleStopSequencesChange = (e: React.FocusEvent<HTMLInputElement>) => {
+        const stopSequences = e.target.value.split(',').map(s => s.trim()).filter(Boolean).slice(0, 4);
+        updateNodeData(selectedNode.id, { stopSequences: stopSequences.length ? stopSequences : undefined });
+    };
+    const handleOutputModeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const outputMode = e.target.value as LLMNodeData['outputMode'];
+        updateNodeData(selectedNode.id, {
+            outputMode,
+            jsonSchema: outputMode === 'json' && !data.jsonSchema ? DEFAULT_JSON_SCHEMA : data.jsonSchema,
+        });
+    };
+    const handleChatModeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        updateNodeData(selectedNode.id, { chatMode: e.target.value === 'chat' });
+    };
+    const handleSendFollowUp = () => {
+        const content = followUp.trim();
+        if (!content || data.status === 'running') return;
+        setFollowUp('');
+        sendChatMessage(selectedNode.id, content);
+    };
+    const handleClearConversation = () => {
+        updateNodeData(selectedNode.id, { messages: undefined, response: '', output: undefined });
+    };
+    const handleRetriesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        updateNodeData(selectedNode.id, { retries: Math.max(0, parseInt(e.target.value, 10) || 0) });
+    };
+    const handleTimeoutChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const seconds = parseFloat(e.target.value);
+        updateNodeData(selectedNode.id, { timeoutMs: seconds > 0 ? Math.round(seconds * 1000) : undefined });
+    };
+    const handleBackoffChange = (backoff: Partial<RetryBackoff>) => {
+        updateNodeData(selectedNode.id, { backoff: { ...retryPolicy.backoff, ...backoff } });
+    };
+    const handleWorkflowInputToggle = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (!inputTarget) return;
+        updateNodeData(selectedNode.id, {
+            workflowInput: e.target.checked
+                ? { name: data.label.toLowerCase().replace(/\W+/g, '_'), type: inputTarget.type }
+                : undefined,
+        });
+    };
+    const handleWorkflowInputNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (!data.workflowInput) return;
+        updateNodeData(selectedNode.id, { workflowInput: { ...data.workflowInput, name: e.target.value } });
+    };
     const handleOpenShare = () => {
         window.dispatchEvent(new Event('openShareModal'));
     };
@@ -150,6 +208,14 @@ export default function PropertiesSidebar() {
     const handleRunSelected = async () => {
         if (!selectedNode) return;
         const node = selectedNode;
+
+        // Same check as a run started from the canvas
+        const blocking = getBlockingIssues(nodes, edges, [node.id]);
+        if (blocking.length > 0) {
+            toast.error(describeBlockingIssues(blocking, nodes));
+            return;
+        }
+
         setNodeStatus(node.id, 'running');
         setExecuting(true); // Notify other components that a run is starting
 
@@ -167,7 +233,10 @@ export default function PropertiesSidebar() {
                     }),
                 });
 
-                if (!response.ok) throw new Error('Execution failed');
+                if (!response.ok) {
+                    const error = await response.json().catch(() => ({}));
+                    throw new Error(error.error || 'Execution failed');
+                }
 
                 const result = await response.json();
 
@@ -184,7 +253,7 @@ export default function PropertiesSidebar() {
             }
         } catch (error) {
             console.error('Run failed:', error);
-            setNodeStatus(node.id, 'error', undefined, 'Execution failed');
+            setNodeStatus(node.id, 'error', undefined, error instanceof Error ? error.message : 'Execution failed');
         } finally {
             setExecuting(false); // Notify other components that a run has finished
         }
@@ -269,86 +338,337 @@ export default function PropertiesSidebar() {
 
                 {/* Title */}
                 <div className="flex items-center justify-between text-gray-200">
-                    <span className="text-sm font-medium">Any LLM</span>
+                    <span className="text-sm font-medium">{isLLM ? 'Any LLM' : data.label}</span>
                     <div className="flex items-center gap-1 text-gray-400">
                         <Sparkles className="w-3 h-3" />
                         <span className="text-xs">1</span>
                     </div>
                 </div>
 
-                {/* Model Selection */}
-                <div className="space-y-2">
-                    <div className="flex items-center gap-1.5">
-                        <label className="text-xs text-gray-400">Model</label>
-                        <Info className="w-3 h-3 text-gray-600" />
+                {isLLM && (
+                    <>
+                        {/* Model Selection */}
+                        <div className="space-y-2">
+                            <div className="flex items-center gap-1.5">
+                                <label className="text-xs text-gray-400">Model</label>
+                                <Info className="w-3 h-3 text-gray-600" />
+                            </div>
+                            <div className="relative">
+                                <select
+                                    value={model}
+                                    onChange={handleModelChange}
+                                    className="w-full bg-[#18181B] border border-[#27272A] rounded-lg px-3 py-2.5 text-xs text-gray-200 focus:outline-none focus:border-gray-500 appearance-none"
+                                >
+                                    {!modelGroups.some(group => group.models.some(m => m.id === model)) && (
+                                        <option value={model}>{model}</option>
+                                    )}
+                                    {modelGroups.filter(group => group.models.length > 0).map(group => (
+                                        <optgroup key={group.id} label={group.configured ? group.name : `${group.name} (not configured)`}>
+                                            {group.models.map(m => (
+                                                <option key={m.id} value={m.id} disabled={!group.configured}>{m.name}</option>
+                                            ))}
+                                        </optgroup>
+                                    ))}
+                                </select>
+                                <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-gray-500 pointer-events-none" />
+                            </div>
+                        </div>
+
+                        {/* Temperature Slider */}
+                        <div className="space-y-3">
+                            <div className="flex items-center gap-1.5">
+                                <label className="text-xs text-gray-400">Temperature</label>
+                                <Info className="w-3 h-3 text-gray-600" />
+                            </div>
+
+                            <div className="flex items-center gap-3">
+                                <div className="relative flex-1 h-1 bg-[#27272A] rounded-full group cursor-pointer">
+                                    <input
+                                        type="range"
+                                        min="0"
+                                        max="1"
+                                        step="0.1"
+                                        value={data.temperature ?? 0}
+                                        onChange={handleTemperatureChange}
+                                        className="absolute w-full h-full opacity-0 cursor-pointer z-10"
+                                    />
+                                    <div
+                                        className="absolute h-full bg-gray-500 rounded-full"
+                                        style={{ width: `${(data.temperature ?? 0) * 100}%` }}
+                                    />
+                                    <div
+                                        className="absolute top-1/2 -translate-y-1/2 w-3 h-3 bg-white rounded-full margin-left-[-6px]"
+                                        style={{ left: `${(data.temperature ?? 0) * 100}%` }}
+                                    />
+                                </div>
+                                <div className="w-8 py-1 bg-[#18181B] border border-[#27272A] rounded text-center text-xs text-gray-300">
+                                    {data.temperature ?? 0}
+                                </div>
+                            </div>
+                        </div>
+
+                        {/* Sampling: left empty, the provider defaults apply */}
+                        <div className="space-y-3">
+                            <div className="flex items-center justify-between gap-2">
+                                <label htmlFor="llm-max-tokens" className="text-xs text-gray-500">Max tokens</label>
+                                <input
+                                    id="llm-max-tokens"
+                                    type="number"
+                                    min="1"
+                                    placeholder="4096"
+                                    value={data.maxTokens ?? ''}
+                                    onChange={handleMaxTokensChange}
+                                    className="w-20 bg-[#18181B] border border-[#27272A] rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-gray-500"
+                                />
+                            </div>
+
+                            <div className="flex items-center justify-between gap-2">
+                                <label htmlFor="llm-top-p" className="text-xs text-gray-500">Top-p</label>
+                                <input
+                                    id="llm-top-p"
+                                    type="number"
+                                    min="0"
+                                    max="1"
+                                    step="0.05"
+                                    placeholder="1"
+                                    value={data.topP ?? ''}
+                                    onChange={handleTopPChange}
+                                    className="w-20 bg-[#18181B] border border-[#27272A] rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-gray-500"
+                                />
+                            </div>
+
+                            <div className="flex items-center justify-between gap-2">
+                                <label htmlFor="llm-stop" className="text-xs text-gray-500">Stop sequences</label>
+                                <input
+                                    id="llm-stop"
+                                    type="text"
+                                    placeholder="Comma separated"
+                                    defaultValue={data.stopSequences?.join(', ') ?? ''}
+                                    key={selectedNode.id}
+                                    onBlur={handleStopSequencesChange}
+                                    className="w-32 bg-[#18181B] border border-[#27272A] rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-gray-500"
+                                />
+                            </div>
+                        </div>
+
+                        {/* Thinking Toggle */}
+                        <div className="flex items-center gap-2">
+                            <div className="relative flex items-center">
+                                <input
+                                    type="checkbox"
+                                    checked={data.thinking || false}
+                                    onChange={handleThinkingChange}
+                                    id="thinking-toggle"
+                                    className="peer w-4 h-4 rounded border border-[#27272A] bg-[#18181B] text-transparent checked:bg-[#18181B] checked:text-white focus:ring-0 focus:ring-offset-0 cursor-pointer appearance-none"
+                                />
+                                {data.thinking && (
+                                    <div className="absolute inset-0 flex items-center justify-center pointer-events-none text-white">
+                                        <svg width="10" height="8" viewBox="0 0 10 8" fill="none" xmlns="http://www.w3.org/2000/svg">
+                                            <path d="M1 4L3.5 6.5L9 1" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" />
+                                        </svg>
+                                    </div>
+                                )}
+                            </div>
+                            <label htmlFor="thinking-toggle" className="text-xs text-gray-400 cursor-pointer select-none">Thinking</label>
+                            <Info className="w-3 h-3 text-gray-600" />
+                        </div>
+
+                        {/* Output: plain text, or JSON matching a schema with a handle per field */}
+                        <div className="space-y-2">
+                            <div className="flex items-center justify-between gap-2">
+                                <label htmlFor="llm-output-mode" className="text-xs text-gray-400">Output</label>
+                                <select
+                                    id="llm-output-mode"
+                                    value={data.outputMode ?? 'text'}
+                                    onChange={handleOutputModeChange}
+                                    className="bg-[#18181B] border border-[#27272A] rounded px-1.5 py-1 text-xs text-gray-200 focus:outline-none focus:border-gray-500"
+                                >
+                                    <option value="text">Text</option>
+                                    <option value="json">JSON</option>
+                                </select>
+                            </div>
+
+                            {data.outputMode === 'json' && (
+                                <>
+                                    <textarea
+                                        value={data.jsonSchema ?? ''}
+                                        onChange={(e) => updateNodeData(selectedNode.id, { jsonSchema: e.target.value })}
+                                        rows={8}
+                                        spellCheck={false}
+                                        placeholder="JSON Schema of the answer"
+                                        className="w-full bg-[#18181B] border border-[#27272A] rounded-lg px-3 py-2 text-xs font-mono text-gray-200 focus:outline-none focus:border-gray-500 resize-y"
+                                    />
+                                    {jsonSchemaError && (
+                                        <p className="text-xs text-red-400">{jsonSchemaError}</p>
+                                    )}
+                                </>
+                            )}
+                        </div>
+
+                        {/* Mode: one-shot prompt, or a conversation answered turn by turn */}
+                        <div className="space-y-2">
+                            <div className="flex items-center justify-between gap-2">
+                                <label htmlFor="llm-chat-mode" className="text-xs text-gray-400">Mode</label>
+                                <select
+                                    id="llm-chat-mode"
+                                    value={data.chatMode ? 'chat' : 'single'}
+                                    onChange={handleChatModeChange}
+                                    className="bg-[#18181B] border border-[#27272A] rounded px-1.5 py-1 text-xs text-gray-200 focus:outline-none focus:border-gray-500"
+                                >
+                                    <option value="single">Single prompt</option>
+                                    <option value="chat">Chat</option>
+                                </select>
+                            </div>
+
+                            {data.chatMode && (
+                                <>
+                                    <p className="text-xs text-gray-500">
+                                        {data.messages?.length
+                                            ? `${data.messages.length} message${data.messages.length === 1 ? '' : 's'} in the conversation`
+                                            : 'The first run opens the conversation with the prompt'}
+                                    </p>
+                                    <textarea
+                                        value={followUp}
+                                        onChange={(e) => setFollowUp(e.target.value)}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter' && !e.shiftKey) {
+                                                e.preventDefault();
+                                                handleSendFollowUp();
+                                            }
+                                        }}
+                                        rows={3}
+                                        placeholder="Send a follow-up…"
+                                        className="w-full bg-[#18181B] border border-[#27272A] rounded-lg px-3 py-2 text-xs text-gray-200 focus:outline-none focus:border-gray-500 resize-y"
+                                    />
+                                    <div className="flex items-center justify-between gap-2">
+                                        <button
+                                            onClick={handleClearConversation}
+                                            disabled={!data.messages?.length || data.status === 'running'}
+                                            className="text-xs text-gray-400 hover:text-white transition-colors disabled:opacity-40"
+                                        >
+                                            Clear conversation
+                                        </button>
+                                        <button
+                                            onClick={handleSendFollowUp}
+                                            disabled={!followUp.trim() || data.status === 'running'}
+                                            className="flex items-center gap-1.5 px-3 py-1.5 bg-[#E1E476] hover:bg-[#d4d765] text-black text-xs rounded-lg transition-colors disabled:opacity-40"
+                                        >
+                                            <ArrowRight className="w-3.5 h-3.5" />
+                                            Send
+                                        </button>
+                                    </div>
+                                </>
+                            )}
+                        </div>
+                    </>
+                )}
+
+                {/* Workflow input: lets each run supply this node's value */}
+                {inputTarget && (
+                    <div className="space-y-3">
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                id="workflow-input-toggle"
+                                checked={!!data.workflowInput}
+                                onChange={handleWorkflowInputToggle}
+                                className="accent-[#E1E476]"
+                            />
+                            <label htmlFor="workflow-input-toggle" className="text-xs text-gray-400 cursor-pointer select-none">
+                                Workflow input
+                            </label>
+                            <Info className="w-3 h-3 text-gray-600" />
+                        </div>
+
+                        {data.workflowInput && (
+                            <div className="flex items-center justify-between gap-2">
+                                <label htmlFor="workflow-input-name" className="text-xs text-gray-500">
+                                    Name <span className="text-gray-600">({data.workflowInput.type})</span>
+                                </label>
+                                <input
+                                    id="workflow-input-name"
+                                    type="text"
+                                    value={data.workflowInput.name}
+                                    onChange={handleWorkflowInputNameChange}
+                                    className="w-24 bg-[#18181B] border border-[#27272A] rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-gray-500"
+                                />
+                            </div>
+                        )}
                     </div>
-                    <div className="relative">
-                        <select
-                            value={data.model || 'groq:meta-llama/llama-4-scout-17b-16e-instruct'}
-                            onChange={handleModelChange}
-                            className="w-full bg-[#18181B] border border-[#27272A] rounded-lg px-3 py-2.5 text-xs text-gray-200 focus:outline-none focus:border-gray-500 appearance-none"
-                        >
-                            {MODELS.map(model => (
-                                <option key={model.id} value={model.id}>{model.name}</option>
-                            ))}
-                        </select>
-                        <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-gray-500 pointer-events-none" />
+                )}
+
+                {/* Prompt nodes can emit a list, one item per line, for the nodes downstream to run over */}
+                {selectedNode.type === 'text' && (
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            id="text-split-lines"
+                            checked={!!data.splitLines}
+                            onChange={(e) => updateNodeData(selectedNode.id, { splitLines: e.target.checked })}
+                            className="accent-[#E1E476]"
+                        />
+                        <label htmlFor="text-split-lines" className="text-xs text-gray-400 cursor-pointer select-none">
+                            Output a list, one item per line
+                        </label>
+                        <Info className="w-3 h-3 text-gray-600" />
                     </div>
-                </div>
+                )}
 
-                {/* Temperature Slider */}
+                {/* Execution: retries, per-attempt timeout and backoff between attempts */}
                 <div className="space-y-3">
                     <div className="flex items-center gap-1.5">
-                        <label className="text-xs text-gray-400">Temperature</label>
+                        <label className="text-xs text-gray-400">Execution</label>
                         <Info className="w-3 h-3 text-gray-600" />
                     </div>
 
-                    <div className="flex items-center gap-3">
-                        <div className="relative flex-1 h-1 bg-[#27272A] rounded-full group cursor-pointer">
-                            <input
-                                type="range"
-                                min="0"
-                                max="1"
-                                step="0.1"
-                                value={data.temperature ?? 0}
-                                onChange={handleTemperatureChange}
-                                className="absolute w-full h-full opacity-0 cursor-pointer z-10"
-                            />
-                            <div
-                                className="absolute h-full bg-gray-500 rounded-full"
-                                style={{ width: `${(data.temperature ?? 0) * 100}%` }}
-                            />
-                            <div
-                                className="absolute top-1/2 -translate-y-1/2 w-3 h-3 bg-white rounded-full margin-left-[-6px]"
-                                style={{ left: `${(data.temperature ?? 0) * 100}%` }}
-                            />
-                        </div>
-                        <div className="w-8 py-1 bg-[#18181B] border border-[#27272A] rounded text-center text-xs text-gray-300">
-                            {data.temperature ?? 0}
-                        </div>
+                    <div className="flex items-center justify-between gap-2">
+                        <label htmlFor="node-retries" className="text-xs text-gray-500">Retries</label>
+                        <input
+                            id="node-retries"
+                            type="number"
+                            min="0"
+                            max="10"
+                            value={retryPolicy.retries}
+                            onChange={handleRetriesChange}
+                            className="w-20 bg-[#18181B] border border-[#27272A] rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-gray-500"
+                        />
                     </div>
-                </div>
 
-                {/* Thinking Toggle */}
-                <div className="flex items-center gap-2">
-                    <div className="relative flex items-center">
+                    <div className="flex items-center justify-between gap-2">
+                        <label htmlFor="node-timeout" className="text-xs text-gray-500">Timeout (s)</label>
                         <input
-                            type="checkbox"
-                            checked={data.thinking || false}
-                            onChange={handleThinkingChange}
-                            id="thinking-toggle"
-                            className="peer w-4 h-4 rounded border border-[#27272A] bg-[#18181B] text-transparent checked:bg-[#18181B] checked:text-white focus:ring-0 focus:ring-offset-0 cursor-pointer appearance-none"
+                            id="node-timeout"
+                            type="number"
+                            min="1"
+                            value={retryPolicy.timeoutMs / 1000}
+                            onChange={handleTimeoutChange}
+                            className="w-20 bg-[#18181B] border border-[#27272A] rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-gray-500"
                         />
-                        {data.thinking && (
-                            <div className="absolute inset-0 flex items-center justify-center pointer-events-none text-white">
-                                <svg width="10" height="8" viewBox="0 0 10 8" fill="none" xmlns="http://www.w3.org/2000/svg">
-                                    <path d="M1 4L3.5 6.5L9 1" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" />
-                                </svg>
-                            </div>
-                        )}
                     </div>
-                    <label htmlFor="thinking-toggle" className="text-xs text-gray-400 cursor-pointer select-none">Thinking</label>
-                    <Info className="w-3 h-3 text-gray-600" />
+
+                    <div className="flex items-center justify-between gap-2">
+                        <label htmlFor="node-backoff" className="text-xs text-gray-500">Backoff</label>
+                        <div className="flex items-center gap-1">
+                            <select
+                                id="node-backoff"
+                                value={retryPolicy.backoff.strategy}
+                                onChange={(e) => handleBackoffChange({ strategy: e.target.value as RetryBackoff['strategy'] })}
+                                className="bg-[#18181B] border border-[#27272A] rounded px-1.5 py-1 text-xs text-gray-200 focus:outline-none focus:border-gray-500"
+                            >
+                                <option value="exponential">Exponential</option>
+                                <option value="fixed">Fixed</option>
+                            </select>
+                            <input
+                                type="number"
+                                min="0"
+                                step="100"
+                                value={retryPolicy.backoff.delayMs}
+                                onChange={(e) => handleBackoffChange({ delayMs: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                                className="w-16 bg-[#18181B] border border-[#27272A] rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-gray-500"
+                                title="Delay before the first retry (ms)"
+                            />
+                        </div>
+                    </div>
                 </div>
 
             </div>
@@ -398,3 +718,12 @@ export default function PropertiesSidebar() {
         </div>
     );
 }
+
+function getJsonSchemaError(source: string | undefined): string | null {
+    try {
+        parseJsonSchema(source);
+        return null;
+    } catch (error) {
+        return (error as Error).message;
+    }
+}
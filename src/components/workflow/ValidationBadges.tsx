@@ -0,0 +1,47 @@
+import { ViewportPortal, Node } from '@xyflow/react';
+import { AlertCircle, AlertTriangle } from 'lucide-react';
+import { ValidationIssue } from '@/lib/workflow-engine/validation';
+import { WorkflowNodeData } from '@/types/nodes';
+
+interface ValidationBadgesProps {
+    nodes: Node<WorkflowNodeData>[];
+    issues: ValidationIssue[];
+}
+
+/**
+ * Marks the top-right corner of each node with problems found by
+ * validateWorkflow; hovering lists them. Must render inside <ReactFlow>.
+ */
+export function ValidationBadges({ nodes, issues }: ValidationBadgesProps) {
+    const issuesByNode = new Map<string, ValidationIssue[]>();
+    issues.forEach(issue => {
+        if (!issue.nodeId) return;
+        issuesByNode.set(issue.nodeId, [...(issuesByNode.get(issue.nodeId) ?? []), issue]);
+    });
+
+    return (
+        <ViewportPortal>
+            {nodes.map(node => {
+                const nodeIssues = issuesByNode.get(node.id);
+                if (!nodeIssues) return null;
+
+                const hasError = nodeIssues.some(i => i.severity === 'error');
+                const Icon = hasError ? AlertCircle : AlertTriangle;
+
+                return (
+                    <div
+                        key={node.id}
+                        title={nodeIssues.map(i => i.message).join('\n')}
+                        className={`absolute flex items-center justify-center w-7 h-7 rounded-full border-2 border-[#1C1C1E] shadow-lg pointer-events-auto
+                            ${hasError ? 'bg-red-500' : 'bg-amber-500'}`}
+                        style={{
+                            transform: `translate(${node.position.x + (node.measured?.width ?? 0) - 14}px, ${node.position.y - 14}px)`,
+                        }}
+                    >
+                        <Icon className="w-4 h-4 text-white" strokeWidth={2.5} />
+                    </div>
+                );
+            })}
+        </ViewportPortal>
+    );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useCallback, useRef, useState, useMemo } from 'react';
+import { useCallback, useEffect, useRef, useState, useMemo } from 'react';
 import { useParams } from 'next/navigation';
 import {
     ReactFlow,
@@ -20,12 +20,25 @@ import { nodeTypes } from '@/components/nodes';
 import { edgeTypes, CustomConnectionLine } from '@/components/edges';
 import { useWorkflowStore } from '@/stores/workflow-store';
 import { useCanvasToolStore } from '@/stores/canvas-tool-store';
-import { isValidConnection as validateConnection } from '@/lib/workflow-engine/validation';
+import {
+    isValidConnection as validateConnection,
+    describeBlockingIssues,
+    getBlockingIssues,
+    getDownstreamNodes,
+    validateWorkflow,
+} from '@/lib/workflow-engine/validation';
+import { applyWorkflowInputs } from '@/lib/workflow-engine/workflow-inputs';
+import { ExecutionEvent, WorkflowExecutionSummary, readExecutionEvents } from '@/lib/workflow-engine/events';
+import { followRun, RUN_FROM_NODE_EVENT, RunFromNodeDetail } from '@/lib/workflow-engine/run-status';
 import { NodeType } from '@/types/nodes';
-import FloatingToolbar from '@/components/workflow/FloatingToolbar';
+import FloatingToolbar, { RunOptions } from '@/components/workflow/FloatingToolbar';
 import { ContextConnectionMenu } from '@/components/workflow/ContextConnectionMenu';
+import { ValidationBadges } from '@/components/workflow/ValidationBadges';
 import { toast } from 'sonner';
 
+// Delivers a run's events to onEvent until it finishes, or until signal aborts
+type RunFollower = (onEvent: (event: ExecutionEvent) => void, signal: AbortSignal) => Promise<void>;
+
 function WorkflowCanvasInner() {
     const reactFlowWrapper = useRef<HTMLDivElement>(null);
     const { screenToFlowPosition } = useReactFlow();
@@ -58,6 +71,9 @@ function WorkflowCanvasInner() {
     const redo = useWorkflowStore((state) => state.redo);
     const updateNodeData = useWorkflowStore((state) => state.updateNodeData);
 
+    // Problems that would make a run fail, badged on the nodes they affect
+    const validation = useMemo(() => validateWorkflow(nodes, edges), [nodes, edges]);
+
     /**
      * React Flow interaction props based on active tool
      * 
@@ -95,21 +111,139 @@ function WorkflowCanvasInner() {
         };
     }, [activeTool]);
 
-    // Handle workflow execution — uses SSE streaming for real-time layer pulsation
-    const handleRun = useCallback(async (scope: 'full' | 'selected' | 'single') => {
-        const { setExecuting } = useWorkflowStore.getState();
+    // Stops following the run when the canvas unmounts; the run itself keeps going
+    const runWatcherRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => runWatcherRef.current?.abort(), []);
+
+    // Follow a run until it finishes, mirroring node progress onto the canvas
+    const watchRun = useCallback(async (nodeIdsInRun: string[], follow: RunFollower, runId?: string) => {
+        const { setExecuting, setNodeStatus, setActiveRunId } = useWorkflowStore.getState();
         setIsExecuting(true);
         setExecuting(true); // global store flag — drives HistorySidebar polling
+        if (runId) setActiveRunId(runId); // lets the Stop buttons cancel this run
+
+        const controller = new AbortController();
+        runWatcherRef.current = controller;
+
+        // Nodes still pending or running when the run ends never got a result
+        const markUnfinishedNodes = (status: 'idle' | 'error') => {
+            useWorkflowStore.getState().nodes.forEach(node => {
+                const current = node.data.status;
+                const unfinished = current === 'running'
+                    || (nodeIdsInRun.includes(node.id) && current !== 'success' && current !== 'error' && current !== 'skipped');
+                if (unfinished) {
+                    updateNodeData(node.id, { status });
+                }
+            });
+        };
 
-        // Determine which nodes to run
-        const nodesToRun = scope === 'full' ? nodes : nodes.filter(n => selectedNodeIds.includes(n.id));
+        // Whether the server accepted the run, so a rejected request leaves nodes idle
+        let started = !!runId;
 
-        // Reset ALL node statuses to idle before starting
-        nodesToRun.forEach(node => {
-            updateNodeData(node.id, { status: 'idle', output: undefined, error: undefined });
-        });
+        try {
+            let summary: WorkflowExecutionSummary | null = null;
+
+            await follow((event) => {
+                switch (event.type) {
+                    case 'run-started':
+                        started = true;
+                        setActiveRunId(event.runId);
+                        // The server resolved a 'temp' workflowId to a real one
+                        if (event.workflowId !== workflowId) {
+                            const { setWorkflow, workflowName, nodes, edges } = useWorkflowStore.getState();
+                            setWorkflow(event.workflowId, workflowName, nodes, edges);
+                            window.history.replaceState(null, '', `/workflows/${event.workflowId}`);
+                        }
+                        break;
+                    case 'node-started':
+                        setNodeStatus(event.nodeId, 'running');
+                        break;
+                    case 'node-output':
+                        // Streamed LLM text; node-completed replaces it with the full answer
+                        updateNodeData(event.nodeId, { response: event.text });
+                        break;
+                    case 'node-completed':
+                        setNodeStatus(event.nodeId, 'success', event.output);
+                        if (event.messages) updateNodeData(event.nodeId, { messages: event.messages });
+                        break;
+                    case 'node-failed':
+                        setNodeStatus(event.nodeId, 'error', undefined, event.error);
+                        break;
+                    case 'node-skipped':
+                        setNodeStatus(event.nodeId, 'skipped', undefined, event.reason);
+                        break;
+                    case 'run-completed':
+                        summary = event;
+                        break;
+                    case 'run-failed':
+                        throw new Error(event.error);
+                }
+            }, controller.signal);
+
+            // The canvas unmounted — the run keeps going on the server
+            if (controller.signal.aborted) return;
+
+            const result = summary as WorkflowExecutionSummary | null;
+            if (!result) {
+                throw new Error('Stopped following the run before it completed');
+            }
 
+            console.log('Execution completed:', result);
+
+            const failCount = result.results.filter(r => r.status === 'FAILED').length;
+            const skipCount = result.results.filter(r => r.status === 'SKIPPED').length;
+            if (result.status === 'CANCELLED') {
+                toast.info('Workflow run cancelled');
+                markUnfinishedNodes('idle');
+            } else if (failCount === 0) {
+                toast.success(`Workflow completed in ${(result.duration / 1000).toFixed(1)}s`);
+            } else if (skipCount > 0) {
+                toast.warning(`Completed with ${failCount} failed and ${skipCount} skipped node(s)`);
+            } else {
+                toast.warning(`Completed with ${failCount} failed node(s)`);
+            }
+        } catch (error) {
+            if (controller.signal.aborted) return;
+            console.error('Execution error:', error);
+            toast.error(error instanceof Error ? error.message : 'Workflow execution failed');
+            // Mark nodes that never finished as failed
+            markUnfinishedNodes(started ? 'error' : 'idle');
+        } finally {
+            if (runWatcherRef.current === controller) runWatcherRef.current = null;
+            setIsExecuting(false);
+            setExecuting(false);
+            setActiveRunId(null);
+        }
+    }, [workflowId, updateNodeData]);
+
+    // Start a run and follow its event stream; polling is only for reattaching after a reload
+    const startRun = useCallback(async (
+        request: { scope: string; nodeIds?: string[]; sourceRunId?: string } & RunOptions,
+        nodeIdsInRun: string[]
+    ) => {
+        // Refuse to start while a node in the run has a blocking problem
+        let runNodes = nodes;
         try {
+            if (request.inputs) runNodes = applyWorkflowInputs(nodes, request.inputs);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Invalid workflow inputs');
+            return;
+        }
+
+        const blocking = getBlockingIssues(runNodes, edges, nodeIdsInRun);
+        if (blocking.length > 0) {
+            toast.error(describeBlockingIssues(blocking, nodes));
+            return;
+        }
+
+        // Reset the statuses of every node in the run before starting
+        nodeIdsInRun.forEach(nodeId => {
+            updateNodeData(nodeId, { status: 'idle', output: undefined, error: undefined });
+        });
+
+        const { failurePolicy } = useWorkflowStore.getState();
+        await watchRun(nodeIdsInRun, async (onEvent, signal) => {
             const response = await fetch('/api/workflows/execute', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
@@ -117,112 +251,84 @@ function WorkflowCanvasInner() {
                     workflowId: workflowId || 'temp',
                     nodes,
                     edges,
-                    scope: scope.toUpperCase(),
-                    nodeIds: scope !== 'full' ? selectedNodeIds : undefined,
+                    ...request,
+                    failurePolicy,
+                    stream: true,
                 }),
+                signal,
             });
 
             if (!response.ok) {
-                throw new Error('Execution failed');
+                // Surface the route's reason, e.g. no previous run to re-run from
+                const error = await response.json().catch(() => ({}));
+                throw new Error(error.error || 'Workflow execution failed');
             }
 
-            const result = await response.json();
+            await readExecutionEvents(response, onEvent);
+        });
+    }, [workflowId, nodes, edges, updateNodeData, watchRun]);
 
-            // If the server resolved a 'temp' workflowId to a real one, update the store
-            if (result.workflowId && result.workflowId !== workflowId) {
-                const { setWorkflow } = useWorkflowStore.getState();
-                const currentState = useWorkflowStore.getState();
-                setWorkflow(result.workflowId, currentState.workflowName, currentState.nodes, currentState.edges);
-                window.history.replaceState(null, '', `/workflows/${result.workflowId}`);
-            }
+    const handleRun = useCallback(async (
+        scope: 'full' | 'selected' | 'single',
+        options: RunOptions = {}
+    ) => {
+        // Determine which nodes to run
+        const nodesToRun = scope === 'full' ? nodes : nodes.filter(n => selectedNodeIds.includes(n.id));
 
-            // Build result map for quick lookup
-            const resultMap = new Map<string, { nodeId: string; status: string; output?: unknown; error?: string; duration: number }>();
-            result.results?.forEach((nodeResult: { nodeId: string; status: string; output?: unknown; error?: string; duration: number }) => {
-                resultMap.set(nodeResult.nodeId, nodeResult);
-            });
+        await startRun({
+            scope: scope.toUpperCase(),
+            nodeIds: scope !== 'full' ? selectedNodeIds : undefined,
+            ...options,
+        }, nodesToRun.map(n => n.id));
+    }, [nodes, selectedNodeIds, startRun]);
+
+    // Re-run a node and its descendants, reusing upstream outputs from a previous run
+    const handleRunFromNode = useCallback(async (nodeId: string, sourceRunId?: string) => {
+        if (useWorkflowStore.getState().isExecuting) {
+            toast.info('A run is already in progress');
+            return;
+        }
+        if (!nodes.some(n => n.id === nodeId)) {
+            toast.error('That node is no longer in the workflow');
+            return;
+        }
 
-            // ── Progressive layer-by-layer pulsation ─────────────────────
-            // Server provides layerResults[] with real timing for each layer.
-            // We replay layers sequentially: pulse → delay → apply results.
-            const layers = result.layerResults as Array<{ layer: number; nodeIds: string[]; duration: number }> | undefined;
-
-            if (layers && layers.length > 0) {
-                for (let i = 0; i < layers.length; i++) {
-                    const layer = layers[i];
-
-                    // Mark ONLY this layer's nodes as running (pulsating)
-                    for (const nodeId of layer.nodeIds) {
-                        updateNodeData(nodeId, { status: 'running' });
-                    }
-
-                    // Wait proportional to actual server execution time
-                    // Minimum 400ms so user can see the pulse, max 2000ms to keep it snappy
-                    const pulseDuration = Math.min(Math.max(layer.duration * 0.3, 400), 2000);
-                    await new Promise(resolve => setTimeout(resolve, pulseDuration));
-
-                    // Apply actual results for this layer's nodes
-                    for (const nodeId of layer.nodeIds) {
-                        const nodeResult = resultMap.get(nodeId);
-                        if (nodeResult) {
-                            // Unwrap { value: x } if wrapped (Prisma format)
-                            let rawOutput = nodeResult.output;
-                            if (typeof rawOutput === 'object' && rawOutput !== null && 'value' in (rawOutput as Record<string, unknown>)) {
-                                rawOutput = (rawOutput as Record<string, unknown>).value;
-                            }
-
-                            const updateData: Record<string, unknown> = {
-                                status: nodeResult.status === 'SUCCESS' ? 'success' : 'error',
-                                output: rawOutput,
-                                error: nodeResult.error,
-                            };
-
-                            const node = nodes.find(n => n.id === nodeResult.nodeId);
-                            if (node?.type === 'llm' && rawOutput !== undefined) {
-                                updateData.response = typeof rawOutput === 'string'
-                                    ? rawOutput
-                                    : JSON.stringify(rawOutput);
-                            }
-
-                            updateNodeData(nodeResult.nodeId, updateData);
-                        }
-                    }
-                }
-            } else {
-                // Fallback: apply all results at once (no layer info)
-                result.results?.forEach((nodeResult: { nodeId: string; status: string; output?: unknown; error?: string }) => {
-                    let rawOutput = nodeResult.output;
-                    if (typeof rawOutput === 'object' && rawOutput !== null && 'value' in (rawOutput as Record<string, unknown>)) {
-                        rawOutput = (rawOutput as Record<string, unknown>).value;
-                    }
-                    updateNodeData(nodeResult.nodeId, {
-                        status: nodeResult.status === 'SUCCESS' ? 'success' : 'error',
-                        output: rawOutput,
-                        error: nodeResult.error,
-                    });
-                });
-            }
+        await startRun(
+            { scope: 'FROM_NODE', nodeIds: [nodeId], sourceRunId },
+            [nodeId, ...getDownstreamNodes(nodeId, edges)]
+        );
+    }, [nodes, edges, startRun]);
+
+    // "Run from here" requests from node context menus and run history
+    useEffect(() => {
+        const onRunFromNode = (event: Event) => {
+            const { nodeId, sourceRunId } = (event as CustomEvent<RunFromNodeDetail>).detail;
+            handleRunFromNode(nodeId, sourceRunId);
+        };
 
-            console.log('Execution completed:', result);
+        window.addEventListener(RUN_FROM_NODE_EVENT, onRunFromNode);
+        return () => window.removeEventListener(RUN_FROM_NODE_EVENT, onRunFromNode);
+    }, [handleRunFromNode]);
 
-            const failCount = result.results?.filter((r: { status: string }) => r.status !== 'SUCCESS').length ?? 0;
-            if (failCount === 0) {
-                toast.success(`Workflow completed in ${(result.duration / 1000).toFixed(1)}s`);
-            } else {
-                toast.warning(`Completed with ${failCount} failed node(s)`);
-            }
-        } catch (error) {
-            console.error('Execution error:', error);
-            toast.error('Workflow execution failed');
-            // Reset all nodes to error state
-            nodesToRun.forEach(node => {
-                updateNodeData(node.id, { status: 'error' });
-            });
-        } finally {
-            setIsExecuting(false);
-            setExecuting(false);
-        }
-    }, [workflowId, nodes, edges, selectedNodeIds, updateNodeData]);
+    // Reattach to a run still executing in the background (e.g. after the tab was closed)
+    useEffect(() => {
+        if (!workflowId || workflowId === 'new') return;
+
+        let ignore = false;
+        (async () => {
+            const response = await fetch(`/api/workflows/${workflowId}/runs`).catch(() => null);
+            if (!response?.ok || ignore) return;
+
+            const { runs } = await response.json() as { runs: { id: string; status: string }[] };
+            const activeRun = runs.find(run => run.status === 'RUNNING');
+            if (!activeRun || ignore || useWorkflowStore.getState().isExecuting) return;
+
+            toast.info('Reattached to a run in progress');
+            watchRun([], (onEvent, signal) => followRun(workflowId, activeRun.id, onEvent, { signal }), activeRun.id);
+        })();
+
+        return () => { ignore = true; };
+    }, [workflowId, watchRun]);
 
     // Validate connection before allowing it
     const handleConnect = useCallback(
@@ -525,6 +631,7 @@ function WorkflowCanvasInner() {
                     style={{ backgroundColor: 'var(--surface-tertiary)' }}
                     maskColor="var(--shadow-color)"
                 />
+                <ValidationBadges nodes={nodes} issues={validation.issues} />
                 <Panel position="bottom-center">
                     <FloatingToolbar onRun={handleRun} isExecuting={isExecuting} />
                 </Panel>
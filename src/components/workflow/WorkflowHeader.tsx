@@ -9,17 +9,28 @@ import {
     Upload,
     Download,
     FileJson,
+    Package,
     Loader2,
     Sun,
-    Moon
+    Moon,
+    CalendarClock
 } from 'lucide-react';
 import { useTheme } from 'next-themes';
+import { Node, Edge } from '@xyflow/react';
 import { UserButton } from '@clerk/nextjs';
 import { useWorkflowStore } from '@/stores/workflow-store';
 import { useUIStore } from '@/stores/ui-store';
 import { HistorySidebar } from './HistorySidebar';
 import { ShareModal } from '../modals/ShareModal';
+import { ScheduleModal } from '../modals/ScheduleModal';
 import { toast } from 'sonner';
+import { WorkflowNodeData } from '@/types/nodes';
+import {
+    createWorkflowExport,
+    downloadWorkflowExport,
+    fetchWorkflowBundle,
+    importWorkflowFile,
+} from '@/lib/workflow-export';
 
 interface WorkflowHeaderProps {
     workflowId?: string;
@@ -30,6 +41,7 @@ interface WorkflowHeaderProps {
 export function WorkflowHeader({ workflowId, onRun, onSave }: WorkflowHeaderProps) {
     const [isSaving, setIsSaving] = useState(false);
     const [isShareModalOpen, setIsShareModalOpen] = useState(false);
+    const [isScheduleModalOpen, setIsScheduleModalOpen] = useState(false);
     const [isMenuOpen, setIsMenuOpen] = useState(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
     const { theme, setTheme } = useTheme();
@@ -66,28 +78,23 @@ export function WorkflowHeader({ workflowId, onRun, onSave }: WorkflowHeaderProp
     };
 
     const handleExport = () => {
-        const data = {
-            workflow: {
-                name: workflowName,
-                nodes,
-                edges,
-            },
-            version: '1.0.0',
-            exportedAt: new Date().toISOString(),
-        };
-
-        const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = `${workflowName.replace(/\s+/g, '-').toLowerCase() || 'workflow'}.json`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
+        downloadWorkflowExport(createWorkflowExport({ name: workflowName, nodes, edges }));
         toast.success('Workflow exported to JSON');
     };
 
+    // Bundles embed uploaded media so the workflow can move between accounts
+    const handleExportBundle = async () => {
+        const toastId = toast.loading('Bundling workflow media...');
+        try {
+            const bundle = await fetchWorkflowBundle({ name: workflowName, nodes, edges });
+            downloadWorkflowExport(bundle, '-bundle');
+            toast.success('Workflow exported with media', { id: toastId });
+        } catch (error) {
+            console.error('Bundle export failed:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to bundle workflow', { id: toastId });
+        }
+    };
+
     const handleImportClick = () => {
         fileInputRef.current?.click();
     };
@@ -97,22 +104,16 @@ export function WorkflowHeader({ workflowId, onRun, onSave }: WorkflowHeaderProp
         if (!file) return;
 
         const reader = new FileReader();
-        reader.onload = (event) => {
+        reader.onload = async (event) => {
             try {
-                const content = event.target?.result as string;
-                const data = JSON.parse(content);
-
-                if (data.workflow && Array.isArray(data.workflow.nodes) && Array.isArray(data.workflow.edges)) {
-                    setNodes(data.workflow.nodes);
-                    setEdges(data.workflow.edges);
-                    if (data.workflow.name) setWorkflowName(data.workflow.name);
-                    toast.success('Workflow imported successfully');
-                } else {
-                    toast.error('Invalid workflow JSON format');
-                }
+                const workflow = await importWorkflowFile(event.target?.result as string);
+                setNodes(workflow.nodes as Node<WorkflowNodeData>[]);
+                setEdges(workflow.edges as Edge[]);
+                if (workflow.name) setWorkflowName(workflow.name);
+                toast.success('Workflow imported successfully');
             } catch (error) {
                 console.error('Import failed:', error);
-                toast.error('Failed to parse workflow file');
+                toast.error(error instanceof Error ? error.message : 'Failed to import workflow');
             }
         };
         reader.readAsText(file);
@@ -205,6 +206,14 @@ export function WorkflowHeader({ workflowId, onRun, onSave }: WorkflowHeaderProp
                                     </button>
                                 )}
 
+                                <button
+                                    onClick={() => setIsScheduleModalOpen(true)}
+                                    className="p-1 text-gray-400 hover:text-white hover:bg-[#333336] rounded transition-colors"
+                                    title="Schedules"
+                                >
+                                    <CalendarClock className="w-3.5 h-3.5" />
+                                </button>
+
                                 <div className="w-px h-3.5 bg-[#3C3C3E] mx-0.5" />
                                 <button
                                     onClick={handleExport}
@@ -213,6 +222,13 @@ export function WorkflowHeader({ workflowId, onRun, onSave }: WorkflowHeaderProp
                                 >
                                     <Download className="w-3.5 h-3.5" />
                                 </button>
+                                <button
+                                    onClick={handleExportBundle}
+                                    className="p-1 text-gray-400 hover:text-white hover:bg-[#333336] rounded transition-colors"
+                                    title="Export JSON with media"
+                                >
+                                    <Package className="w-3.5 h-3.5" />
+                                </button>
                                 <button
                                     onClick={handleImportClick}
                                     className="p-1 text-gray-400 hover:text-white hover:bg-[#333336] rounded transition-colors"
@@ -238,6 +254,13 @@ export function WorkflowHeader({ workflowId, onRun, onSave }: WorkflowHeaderProp
                 isOpen={isShareModalOpen}
                 onClose={() => setIsShareModalOpen(false)}
             />
+
+            {/* Schedule Modal */}
+            <ScheduleModal
+                workflowId={workflowId || storeWorkflowId || undefined}
+                isOpen={isScheduleModalOpen}
+                onClose={() => setIsScheduleModalOpen(false)}
+            />
         </>
     );
 }
@@ -0,0 +1,12 @@
+// Next.js calls register() once when a server instance starts
+
+export async function register() {
+    if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+    // Without Trigger.dev nothing else runs the workflow-scheduler task
+    const { shouldSkipTriggerDev } = await import('@/lib/workflow-engine/node-executors/shared');
+    if (shouldSkipTriggerDev()) {
+        const { startLocalScheduler } = await import('@/lib/workflow-engine/scheduler');
+        startLocalScheduler();
+    }
+}
@@ -0,0 +1,64 @@
+// Media the server downloads itself (bundled assets, inlined LLM image inputs)
+// only comes from where the app keeps media: Transloadit result hosts, where
+// every upload ends up, and the app's own origin (sample assets in /public).
+// The server never fetches other addresses a client picked, and never reads
+// more than the caller's byte limit.
+
+const UPLOAD_HOST_SUFFIXES = ['.transloadit.com', '.tlcdn.com'];
+
+// Smart URL detection: prefers explicit env var, then Vercel auto-set var, then localhost
+export function getBaseUrl(): string {
+    if (process.env.NEXT_PUBLIC_APP_URL) return process.env.NEXT_PUBLIC_APP_URL;
+    if (process.env.VERCEL_URL) return `https://${process.env.VERCEL_URL}`;
+    return 'http://localhost:3000';
+}
+
+/**
+ * Whether a URL points at an upload or at a file the app serves
+ */
+export function isHostedMediaUrl(url: string): boolean {
+    try {
+        const parsed = new URL(url);
+        if (parsed.origin === new URL(getBaseUrl()).origin) return true;
+        return parsed.protocol === 'https:' && UPLOAD_HOST_SUFFIXES.some(suffix => parsed.hostname.endsWith(suffix));
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Download hosted media. Redirects are refused: they could lead off the hosts.
+ */
+export function fetchHostedMedia(url: string): Promise<Response> {
+    return fetch(url, { redirect: 'error' });
+}
+
+/**
+ * Read a response body, or resolve to null as soon as it passes maxBytes
+ * (by its content-length, or while streaming) without reading the rest
+ */
+export async function readBodyWithLimit(response: Response, maxBytes: number): Promise<Buffer | null> {
+    if (!response.body) return Buffer.alloc(0);
+
+    if (Number(response.headers.get('content-length')) > maxBytes) {
+        await response.body.cancel();
+        return null;
+    }
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        received += value.byteLength;
+        if (received > maxBytes) {
+            await reader.cancel();
+            return null;
+        }
+        chunks.push(value);
+    }
+
+    return Buffer.concat(chunks);
+}
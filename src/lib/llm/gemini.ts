@@ -0,0 +1,126 @@
+import type { Content, EnhancedGenerateContentResponse, GenerationConfig } from '@google/generative-ai';
+import { RateLimitError } from '@/lib/workflow-engine/concurrency';
+import { loadImage } from './images';
+import { LLMRequest, LLMResult, LLMTextListener, LLM_DEFAULTS } from './types';
+
+// Gemini 2.5 models think by default; thinkingConfig turns that on or off.
+// The SDK's GenerationConfig type predates it, so it is added alongside.
+const THINKING_MODEL_PATTERN = /^gemini-2\.5-/;
+// Pro models can't turn thinking off
+const ALWAYS_THINKING_MODEL_PATTERN = /^gemini-2\.5-pro/;
+
+/**
+ * Run a generation on Gemini with system messages as the system instruction,
+ * streaming the answer when `onText` is given
+ */
+export async function generateWithGemini(
+    modelId: string,
+    request: LLMRequest,
+    onText?: LLMTextListener,
+    signal?: AbortSignal
+): Promise<LLMResult> {
+    const { GoogleGenerativeAI, GoogleGenerativeAIFetchError } = await import('@google/generative-ai');
+
+    const apiKey = process.env.GOOGLE_GENERATIVE_AI_API_KEY || process.env.GOOGLE_AI_API_KEY;
+    if (!apiKey) {
+        throw new Error('Google AI API key not configured (set GOOGLE_GENERATIVE_AI_API_KEY)');
+    }
+
+    const systemInstruction = request.messages
+        .filter(m => m.role === 'system')
+        .map(m => m.content)
+        .join('\n\n');
+
+    const genAI = new GoogleGenerativeAI(apiKey);
+    const model = genAI.getGenerativeModel({
+        model: modelId,
+        systemInstruction: systemInstruction || undefined,
+        generationConfig: getGenerationConfig(modelId, request),
+    });
+
+    const contents = await toGeminiContents(request);
+
+    console.log('[LLM] Calling Gemini API with', contents.length, 'messages');
+    const startTime = Date.now();
+
+    let text = '';
+    let response: EnhancedGenerateContentResponse;
+    try {
+        if (onText) {
+            const result = await model.generateContentStream({ contents }, { signal });
+            for await (const chunk of result.stream) {
+                const delta = chunk.text();
+                if (delta) {
+                    text += delta;
+                    onText(text);
+                }
+            }
+            response = await result.response;
+        } else {
+            response = (await model.generateContent({ contents }, { signal })).response;
+            text = response.text();
+        }
+    } catch (error) {
+        if (error instanceof GoogleGenerativeAIFetchError && error.status === 429) {
+            // Gemini puts the hint in a RetryInfo detail, e.g. { retryDelay: "17s" }
+            const retryDelay = error.errorDetails?.find(d => d['@type']?.endsWith('RetryInfo'))?.retryDelay;
+            throw new RateLimitError('gemini', typeof retryDelay === 'string' ? parseFloat(retryDelay) * 1000 : undefined);
+        }
+        throw error;
+    }
+
+    console.log('[LLM] Gemini responded in', Date.now() - startTime, 'ms');
+    console.log('[LLM] Response length:', text.length, 'chars');
+
+    const usage = response.usageMetadata;
+    return {
+        text,
+        usage: {
+            model: request.model,
+            promptTokens: usage?.promptTokenCount ?? 0,
+            // Total minus prompt, so thinking tokens (billed as output) are counted
+            completionTokens: usage ? usage.totalTokenCount - usage.promptTokenCount : 0,
+        },
+    };
+}
+
+function getGenerationConfig(modelId: string, request: LLMRequest): GenerationConfig {
+    const config: GenerationConfig & { thinkingConfig?: { thinkingBudget: number } } = {
+        temperature: request.temperature ?? LLM_DEFAULTS.temperature,
+        maxOutputTokens: request.maxTokens ?? LLM_DEFAULTS.maxTokens,
+        topP: request.topP,
+        stopSequences: request.stop?.length ? request.stop : undefined,
+        responseMimeType: request.jsonSchema ? 'application/json' : undefined,
+    };
+
+    if (THINKING_MODEL_PATTERN.test(modelId)) {
+        if (request.thinking) {
+            // -1 lets the model pick its own budget
+            config.thinkingConfig = { thinkingBudget: -1 };
+        } else if (!ALWAYS_THINKING_MODEL_PATTERN.test(modelId)) {
+            config.thinkingConfig = { thinkingBudget: 0 };
+        }
+    }
+
+    return config;
+}
+
+// Assistant turns are Gemini's 'model' role; images attach to the last user
+// message, inline since Gemini can't fetch them
+async function toGeminiContents(request: LLMRequest): Promise<Content[]> {
+    const turns = request.messages.filter(m => m.role !== 'system');
+    const lastUser = turns.map(m => m.role).lastIndexOf('user');
+
+    return Promise.all(turns.map(async (message, index): Promise<Content> => {
+        const parts: Content['parts'] = [{ text: message.content }];
+
+        if (index === lastUser) {
+            for (const imageUrl of request.images ?? []) {
+                const { mimeType, data } = await loadImage(imageUrl);
+                parts.push({ inlineData: { data, mimeType } });
+            }
+        }
+
+        return { role: message.role === 'assistant' ? 'model' : 'user', parts };
+    }));
+}
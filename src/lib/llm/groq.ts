@@ -0,0 +1,109 @@
+import type { ChatCompletionContentPart, ChatCompletionCreateParamsNonStreaming, ChatCompletionMessageParam } from 'groq-sdk/resources/chat/completions';
+import { RateLimitError, parseRetryAfter } from '@/lib/workflow-engine/concurrency';
+import { assertSupportedImageUrl } from './images';
+import { LLMRequest, LLMResult, LLMTextListener, LLM_DEFAULTS } from './types';
+
+// Groq models that accept reasoning_effort; thinking is ignored for the rest
+const REASONING_MODELS = ['qwen/qwen3-32b'];
+
+/**
+ * Run a chat completion on Groq. `modelId` is the model without the 'groq:'
+ * prefix. With `onText` the answer is streamed, except in JSON mode, which
+ * Groq can't stream.
+ */
+export async function generateWithGroq(
+    modelId: string,
+    request: LLMRequest,
+    onText?: LLMTextListener,
+    signal?: AbortSignal
+): Promise<LLMResult> {
+    const Groq = (await import('groq-sdk')).default;
+
+    const apiKey = process.env.GROQ_API_KEY;
+    if (!apiKey) {
+        throw new Error('Groq API key not configured (GROQ_API_KEY)');
+    }
+
+    const groq = new Groq({ apiKey });
+    const params: ChatCompletionCreateParamsNonStreaming = {
+        model: modelId,
+        messages: toGroqMessages(request),
+        temperature: request.temperature ?? LLM_DEFAULTS.temperature,
+        max_tokens: request.maxTokens ?? LLM_DEFAULTS.maxTokens,
+        top_p: request.topP,
+        stop: request.stop?.length ? request.stop : undefined,
+        // The schema itself is in the prompt; JSON mode keeps the answer parseable
+        response_format: request.jsonSchema ? { type: 'json_object' } : undefined,
+        // Parsed reasoning goes to message.reasoning, keeping the content to the answer
+        ...(REASONING_MODELS.includes(modelId) && (request.thinking
+            ? { reasoning_effort: 'default' as const, reasoning_format: 'parsed' as const }
+            : { reasoning_effort: 'none' as const })),
+    };
+
+    console.log('[LLM] Calling Groq API with model:', modelId);
+    const startTime = Date.now();
+
+    let text = '';
+    let usage: { prompt_tokens: number; completion_tokens: number } | null | undefined;
+    try {
+        if (onText && !request.jsonSchema) {
+            const stream = await groq.chat.completions.create({ ...params, stream: true }, { signal });
+            for await (const chunk of stream) {
+                const delta = chunk.choices[0]?.delta?.content;
+                if (delta) {
+                    text += delta;
+                    onText(text);
+                }
+                // Usage comes with the final chunk
+                usage = chunk.x_groq?.usage ?? usage;
+            }
+        } else {
+            const completion = await groq.chat.completions.create(params, { signal });
+            text = completion.choices[0]?.message?.content || '';
+            usage = completion.usage;
+        }
+    } catch (error) {
+        if (error instanceof Groq.APIError && error.status === 429) {
+            throw new RateLimitError('groq', parseRetryAfter(error.headers?.['retry-after']));
+        }
+        throw error;
+    }
+
+    console.log('[LLM] Groq responded in', Date.now() - startTime, 'ms');
+    console.log('[LLM] Response length:', text.length, 'chars');
+
+    return {
+        text,
+        usage: {
+            model: request.model,
+            promptTokens: usage?.prompt_tokens ?? 0,
+            completionTokens: usage?.completion_tokens ?? 0,
+        },
+    };
+}
+
+// Messages keep their roles; images attach to the last user message
+function toGroqMessages(request: LLMRequest): ChatCompletionMessageParam[] {
+    const lastUser = request.messages.map(m => m.role).lastIndexOf('user');
+    const images = request.images ?? [];
+
+    return request.messages.map((message, index): ChatCompletionMessageParam => {
+        if (message.role !== 'user') {
+            return { role: message.role, content: message.content };
+        }
+        if (index !== lastUser || images.length === 0) {
+            return { role: 'user', content: message.content };
+        }
+
+        // Groq fetches remote images itself; data URLs are sent as they are
+        const contentParts: ChatCompletionContentPart[] = [
+            { type: 'text', text: message.content },
+            ...images.map((url): ChatCompletionContentPart => {
+                assertSupportedImageUrl(url);
+                return { type: 'image_url', image_url: { url } };
+            }),
+        ];
+
+        return { role: 'user', content: contentParts };
+    });
+}
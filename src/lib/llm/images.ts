@@ -0,0 +1,62 @@
+import { fetchHostedMedia, isHostedMediaUrl, readBodyWithLimit } from '@/lib/hosted-media';
+
+// Image inputs arrive as data: URLs (pasted or generated in the browser) or
+// remote URLs (Transloadit uploads). Providers that can't fetch remote images
+// get them inlined as base64.
+
+export interface InlineImage {
+    mimeType: string;
+    data: string; // base64
+}
+
+const DATA_URL_PATTERN = /^data:([^;,]+);base64,(.+)$/;
+
+// Larger images are over what providers accept inline anyway
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+export function isRemoteImage(url: string): boolean {
+    return /^https?:\/\//.test(url);
+}
+
+/**
+ * Read an image input into base64, downloading remote URLs
+ */
+export async function loadImage(url: string): Promise<InlineImage> {
+    const dataUrl = url.match(DATA_URL_PATTERN);
+    if (dataUrl) {
+        return { mimeType: dataUrl[1], data: dataUrl[2] };
+    }
+
+    assertSupportedImageUrl(url);
+    if (!isHostedMediaUrl(url)) {
+        throw new Error(`${url.slice(0, 60)} is not an uploaded image; upload it through an Upload Image node`);
+    }
+
+    const response = await fetchHostedMedia(url);
+    if (!response.ok) {
+        throw new Error(`Could not download image ${url} (${response.status})`);
+    }
+
+    const mimeType = response.headers.get('content-type')?.split(';')[0] || 'image/jpeg';
+    if (!mimeType.startsWith('image/')) {
+        throw new Error(`${url} is not an image (${mimeType})`);
+    }
+
+    const buffer = await readBodyWithLimit(response, MAX_IMAGE_BYTES);
+    if (!buffer) {
+        throw new Error(`${url} is too large to send to the model (limit ${MAX_IMAGE_BYTES / 1024 / 1024} MB)`);
+    }
+    return { mimeType, data: buffer.toString('base64') };
+}
+
+/**
+ * Reject image inputs no provider can read, such as browser-only blob: URLs
+ */
+export function assertSupportedImageUrl(url: string): void {
+    if (url.startsWith('blob:')) {
+        throw new Error('An image input was never uploaded (blob: URL); re-upload it');
+    }
+    if (!DATA_URL_PATTERN.test(url) && !isRemoteImage(url)) {
+        throw new Error(`Unsupported image input: ${url.slice(0, 60)}`);
+    }
+}
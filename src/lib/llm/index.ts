@@ -0,0 +1,118 @@
+import { JsonSchema, validateJsonResponse } from './json-output';
+import { resolveModel, supportsVision } from './providers';
+import { LLMMessage, LLMRequest, LLMResult, LLMTextListener, LLMUsage } from './types';
+
+export * from './types';
+export * from './providers';
+export * from './json-output';
+export * from './pricing';
+
+export const DEFAULT_LLM_MODEL = 'groq:meta-llama/llama-4-scout-17b-16e-instruct';
+
+/**
+ * An answer the model gave that couldn't be used. Its tokens were still spent,
+ * so the error carries their usage.
+ */
+export class LLMOutputError extends Error {
+    usage: LLMUsage;
+
+    constructor(message: string, usage: LLMUsage) {
+        super(message);
+        this.name = 'LLMOutputError';
+        this.usage = usage;
+    }
+}
+
+/**
+ * Run an LLM request on the provider its model ID names. Requests with a
+ * JSON schema return the validated JSON, after one repair attempt if needed;
+ * usage then covers both calls, also when the repair fails (LLMOutputError). `onText` receives the answer as it streams
+ * in, from providers that can stream; `signal` aborts the provider request.
+ */
+export async function generateText(request: LLMRequest, onText?: LLMTextListener, signal?: AbortSignal): Promise<LLMResult> {
+    assertVisionSupport(request);
+
+    if (request.jsonSchema) {
+        return generateJson(request, request.jsonSchema, onText, signal);
+    }
+    return callProvider(request, onText, signal);
+}
+
+/**
+ * Fail requests that wire images into a text-only model
+ */
+export function assertVisionSupport(request: LLMRequest): void {
+    if (request.images?.length && !supportsVision(request.model)) {
+        throw new Error(`${request.model} is a text-only model; disconnect the image inputs or pick a vision model`);
+    }
+}
+
+async function generateJson(
+    request: LLMRequest,
+    schema: JsonSchema,
+    onText?: LLMTextListener,
+    signal?: AbortSignal
+): Promise<LLMResult> {
+    const jsonRequest = withJsonInstructions(request, schema);
+
+    const first = await callProvider(jsonRequest, onText, signal);
+    const result = validateJsonResponse(first.text, schema);
+    if (result.ok) return { text: JSON.stringify(result.value, null, 2), usage: first.usage };
+
+    // Show the model its answer and what was wrong with it, once
+    console.warn('[LLM] Invalid JSON response, asking for a repair:', result.error);
+    const repaired = await callProvider({
+        ...jsonRequest,
+        messages: [
+            ...jsonRequest.messages,
+            { role: 'assistant', content: first.text },
+            { role: 'user', content: `That answer is invalid (${result.error}). Reply with only the corrected JSON object.` },
+        ],
+    }, onText, signal);
+    const usage: LLMUsage = {
+        model: request.model,
+        promptTokens: first.usage.promptTokens + repaired.usage.promptTokens,
+        completionTokens: first.usage.completionTokens + repaired.usage.completionTokens,
+    };
+    const repairResult = validateJsonResponse(repaired.text, schema);
+    if (repairResult.ok) {
+        return { text: JSON.stringify(repairResult.value, null, 2), usage };
+    }
+
+    throw new LLMOutputError(`The model did not return JSON matching the schema: ${repairResult.error}`, usage);
+}
+
+// The schema goes in the prompt for every provider; those with a JSON mode
+// are also asked for JSON natively
+function withJsonInstructions(request: LLMRequest, schema: JsonSchema): LLMRequest {
+    const instruction: LLMMessage = {
+        role: 'system',
+        content: `Respond with only a JSON object matching this JSON Schema:\n${JSON.stringify(schema, null, 2)}`,
+    };
+    const turns = request.messages.findIndex(m => m.role !== 'system');
+    const firstTurn = turns === -1 ? request.messages.length : turns;
+
+    return {
+        ...request,
+        messages: [
+            ...request.messages.slice(0, firstTurn),
+            instruction,
+            ...request.messages.slice(firstTurn),
+        ],
+    };
+}
+
+async function callProvider(request: LLMRequest, onText?: LLMTextListener, signal?: AbortSignal): Promise<LLMResult> {
+    const resolved = resolveModel(request.model);
+    if (!resolved) {
+        throw new Error(`Unknown model ${request.model}; no LLM provider uses its prefix`);
+    }
+
+    const { provider, modelName } = resolved;
+    return provider.generate(
+        modelName,
+        provider.capabilities.json ? request : { ...request, jsonSchema: undefined },
+        provider.capabilities.streaming ? onText : undefined,
+        signal
+    );
+}
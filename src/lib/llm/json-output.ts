@@ -0,0 +1,99 @@
+import { z } from 'zod';
+
+// JSON output mode: the LLM node answers with an object matching a JSON
+// schema, and each top-level field gets its own text output handle. The
+// node's output stays the JSON text; field handles read from it.
+
+export type JsonSchema = z.core.JSONSchema.JSONSchema;
+
+export const JSON_FIELD_HANDLE_PREFIX = 'field:';
+
+/**
+ * Read a node's JSON schema source, which must describe an object with
+ * properties. Throws with a message fit for the user.
+ */
+export function parseJsonSchema(source: string | undefined): JsonSchema {
+    if (!source?.trim()) {
+        throw new Error('JSON output needs a schema');
+    }
+
+    let schema: unknown;
+    try {
+        schema = JSON.parse(source);
+    } catch {
+        throw new Error('The JSON schema is not valid JSON');
+    }
+
+    if (!isRecord(schema) || schema.type !== 'object' || !isRecord(schema.properties)) {
+        throw new Error('The JSON schema must describe an object with "properties"');
+    }
+
+    try {
+        z.fromJSONSchema(schema);
+    } catch (error) {
+        throw new Error(`Unsupported JSON schema: ${error instanceof Error ? error.message : error}`);
+    }
+    return schema as JsonSchema;
+}
+
+/**
+ * Top-level fields of a schema source, or none while it is invalid
+ */
+export function getJsonSchemaFields(source: string | undefined): string[] {
+    try {
+        return Object.keys(parseJsonSchema(source).properties ?? {});
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Parse a model's answer and check it against the schema. Code fences
+ * around the JSON are tolerated.
+ */
+export function validateJsonResponse(
+    text: string,
+    schema: JsonSchema
+): { ok: true; value: Record<string, unknown> } | { ok: false; error: string } {
+    const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+    let value: unknown;
+    try {
+        value = JSON.parse(json);
+    } catch {
+        return { ok: false, error: 'the response is not valid JSON' };
+    }
+
+    const result = z.fromJSONSchema(schema).safeParse(value);
+    if (!result.success) {
+        const issue = result.error.issues[0];
+        return { ok: false, error: `${issue.path.join('.') || 'root'}: ${issue.message}` };
+    }
+    if (!isRecord(result.data)) {
+        return { ok: false, error: 'the response is not a JSON object' };
+    }
+    return { ok: true, value: result.data };
+}
+
+/**
+ * A field handle's value from the node's JSON output, as text. Undefined
+ * when the output or the field is missing.
+ */
+export function getJsonField(output: unknown, handle: string): string | undefined {
+    if (typeof output !== 'string') return undefined;
+
+    let value: unknown;
+    try {
+        value = JSON.parse(output);
+    } catch {
+        return undefined;
+    }
+
+    const field = isRecord(value) ? value[handle.slice(JSON_FIELD_HANDLE_PREFIX.length)] : undefined;
+    if (field === undefined || field === null) return undefined;
+    return typeof field === 'string' ? field : JSON.stringify(field);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,190 @@
+import { RateLimitError, parseRetryAfter } from '@/lib/workflow-engine/concurrency';
+import { loadImage } from './images';
+import type { LLMModel } from './providers';
+import { LLMRequest, LLMResult, LLMTextListener, LLM_DEFAULTS } from './types';
+
+// Any server speaking the OpenAI chat completions API (Ollama, vLLM, LM Studio),
+// e.g. OPENAI_COMPATIBLE_BASE_URL=http://localhost:11434/v1 for Ollama.
+// Local servers usually need no key; OPENAI_COMPATIBLE_API_KEY is sent if set.
+
+type ChatContent = string | Array<
+    { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }
+>;
+
+interface ChatUsage {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+}
+
+/**
+ * Run a chat completion on the configured OpenAI-compatible server, streaming
+ * the answer when `onText` is given
+ */
+export async function generateWithOpenAICompatible(
+    modelId: string,
+    request: LLMRequest,
+    onText?: LLMTextListener,
+    signal?: AbortSignal
+): Promise<LLMResult> {
+    const baseUrl = getBaseUrl();
+
+    console.log('[LLM] Calling OpenAI-compatible server', baseUrl, 'with model:', modelId);
+    const startTime = Date.now();
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: getHeaders(),
+        body: JSON.stringify({
+            model: modelId,
+            messages: await toChatMessages(request),
+            temperature: request.temperature ?? LLM_DEFAULTS.temperature,
+            max_tokens: request.maxTokens ?? LLM_DEFAULTS.maxTokens,
+            top_p: request.topP,
+            stop: request.stop?.length ? request.stop : undefined,
+            response_format: request.jsonSchema ? { type: 'json_object' } : undefined,
+            ...(onText && { stream: true, stream_options: { include_usage: true } }),
+        }),
+        signal,
+    });
+
+    if (response.status === 429) {
+        throw new RateLimitError('openai-compatible', parseRetryAfter(response.headers.get('retry-after')));
+    }
+    if (!response.ok) {
+        throw new Error(`OpenAI-compatible server error (${response.status}): ${await response.text()}`);
+    }
+
+    let text: string;
+    let usage: ChatUsage | undefined;
+    if (onText) {
+        ({ text, usage } = await readChatStream(response, onText));
+    } else {
+        const completion = await response.json();
+        text = completion.choices?.[0]?.message?.content || '';
+        usage = completion.usage;
+    }
+    console.log('[LLM] OpenAI-compatible server responded in', Date.now() - startTime, 'ms');
+    console.log('[LLM] Response length:', text.length, 'chars');
+
+    return {
+        text,
+        usage: {
+            model: request.model,
+            promptTokens: usage?.prompt_tokens ?? 0,
+            completionTokens: usage?.completion_tokens ?? 0,
+        },
+    };
+}
+
+// Server-sent events, one `data:` line per chunk and `data: [DONE]` at the
+// end; usage arrives in a last chunk when the server supports include_usage
+async function readChatStream(
+    response: Response,
+    onText: LLMTextListener
+): Promise<{ text: string; usage?: ChatUsage }> {
+    if (!response.body) throw new Error('OpenAI-compatible server sent an empty stream');
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    let usage: ChatUsage | undefined;
+
+    const flushLine = (line: string) => {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) return;
+        const data = trimmed.slice('data:'.length).trim();
+        if (data === '[DONE]') return;
+
+        const chunk = JSON.parse(data);
+        const delta: string | undefined = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+            text += delta;
+            onText(text);
+        }
+        usage = chunk.usage ?? usage;
+    };
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+
+        // Dispatch every complete line, keep the trailing partial line buffered
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        lines.forEach(flushLine);
+    }
+    flushLine(buffer + decoder.decode());
+
+    return { text, usage };
+}
+
+// A slow or dead server mustn't hold up the model picker
+const MODEL_LIST_TIMEOUT_MS = 5000;
+
+/**
+ * Models the server offers: OPENAI_COMPATIBLE_MODELS (comma separated) if
+ * set, otherwise whatever its /models endpoint lists. When the endpoint fails
+ * or doesn't answer in time, only the built-in models are offered.
+ */
+export async function listOpenAICompatibleModels(): Promise<LLMModel[]> {
+    const configured = process.env.OPENAI_COMPATIBLE_MODELS?.split(',').map(m => m.trim()).filter(Boolean);
+    if (configured?.length) return configured.map(toModel);
+
+    try {
+        const response = await fetch(`${getBaseUrl()}/models`, {
+            headers: getHeaders(),
+            signal: AbortSignal.timeout(MODEL_LIST_TIMEOUT_MS),
+        });
+        if (!response.ok) throw new Error(`status ${response.status}`);
+        const body: { data?: { id: string }[] } = await response.json();
+        return (body.data ?? []).map(m => toModel(m.id));
+    } catch (error) {
+        console.warn('[LLM] Could not list OpenAI-compatible models:', error);
+        return [];
+    }
+}
+
+function toModel(id: string): LLMModel {
+    return { id: `openai-compatible:${id}`, name: `${id} (OpenAI-compatible)` };
+}
+
+function getBaseUrl(): string {
+    const baseUrl = process.env.OPENAI_COMPATIBLE_BASE_URL;
+    if (!baseUrl) {
+        throw new Error('OpenAI-compatible server not configured (OPENAI_COMPATIBLE_BASE_URL)');
+    }
+    return baseUrl.replace(/\/+$/, '');
+}
+
+function getHeaders(): Record<string, string> {
+    const apiKey = process.env.OPENAI_COMPATIBLE_API_KEY;
+    return {
+        'Content-Type': 'application/json',
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+    };
+}
+
+// Local servers often can't reach remote images, so they're sent inline
+async function toChatMessages(request: LLMRequest): Promise<{ role: string; content: ChatContent }[]> {
+    const lastUser = request.messages.map(m => m.role).lastIndexOf('user');
+    const images = request.images ?? [];
+
+    return Promise.all(request.messages.map(async (message, index) => {
+        if (index !== lastUser || images.length === 0) {
+            return { role: message.role, content: message.content };
+        }
+
+        const imageParts = await Promise.all(images.map(async (url) => {
+            const { mimeType, data } = await loadImage(url);
+            return { type: 'image_url' as const, image_url: { url: `data:${mimeType};base64,${data}` } };
+        }));
+
+        return {
+            role: message.role,
+            content: [{ type: 'text' as const, text: message.content }, ...imageParts],
+        };
+    }));
+}
@@ -0,0 +1,55 @@
+import { LLMUsage } from './types';
+
+// Estimated prices in USD per million tokens, by model ID or, for every model
+// of a provider, by its prefix. LLM_PRICES (JSON in the same shape) adds to
+// or overrides these, e.g. {"groq:qwen/qwen3-32b":{"input":0.29,"output":0.59}}.
+
+export interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+export const DEFAULT_LLM_PRICES: Record<string, ModelPrice> = {
+    'groq:meta-llama/llama-4-scout-17b-16e-instruct': { input: 0.11, output: 0.34 },
+    'groq:meta-llama/llama-4-maverick-17b-128e-instruct': { input: 0.2, output: 0.6 },
+    'groq:llama-3.1-8b-instant': { input: 0.05, output: 0.08 },
+    'groq:qwen/qwen3-32b': { input: 0.29, output: 0.59 },
+    'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+    'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+    'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+    // Local models cost nothing per token
+    'openai-compatible:': { input: 0, output: 0 },
+};
+
+let prices: Record<string, ModelPrice> | null = null;
+
+/**
+ * The price table in effect: the defaults plus LLM_PRICES from the environment
+ */
+export function getLLMPrices(): Record<string, ModelPrice> {
+    if (prices) return prices;
+
+    let overrides: Record<string, ModelPrice> = {};
+    if (process.env.LLM_PRICES) {
+        try {
+            overrides = JSON.parse(process.env.LLM_PRICES);
+        } catch {
+            console.warn('[LLM] Ignoring LLM_PRICES: not valid JSON');
+        }
+    }
+
+    prices = { ...DEFAULT_LLM_PRICES, ...overrides };
+    return prices;
+}
+
+/**
+ * Estimated cost of a request in USD, or null for models without a price
+ */
+export function estimateCost(usage: LLMUsage): number | null {
+    const table = getLLMPrices();
+    const price = table[usage.model]
+        ?? Object.entries(table).find(([key]) => key.endsWith(':') && usage.model.startsWith(key))?.[1];
+    if (!price) return null;
+
+    return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
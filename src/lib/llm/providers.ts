@@ -0,0 +1,112 @@
+import type { Provider } from '@/lib/workflow-engine/concurrency';
+import { generateWithGemini } from './gemini';
+import { generateWithGroq } from './groq';
+import { generateWithOpenAICompatible, listOpenAICompatibleModels } from './openai-compatible';
+import { LLMRequest, LLMResult, LLMTextListener } from './types';
+
+// Registry of LLM providers. A model ID names its provider by prefix, e.g.
+// 'groq:qwen/qwen3-32b'; what follows is the provider's own model name.
+
+export type LLMProviderId = Extract<Provider, 'groq' | 'gemini' | 'openai-compatible'>;
+
+export interface LLMCapabilities {
+    vision: boolean;
+    // Can be asked for a JSON object response
+    json: boolean;
+    streaming: boolean;
+}
+
+export interface LLMModel {
+    id: string;
+    name: string;
+    // Overrides the provider's vision capability for this model
+    vision?: boolean;
+}
+
+export interface LLMProvider {
+    id: LLMProviderId;
+    name: string;
+    prefix: string;
+    capabilities: LLMCapabilities;
+    // Env vars holding the provider's credentials; any one configures it
+    credentialEnv: string[];
+    models: LLMModel[];
+    // Models only known at runtime, such as those served by a local server
+    listModels?: () => Promise<LLMModel[]>;
+    // Streams the answer to `onText` when given and the provider can stream;
+    // `signal` aborts the request
+    generate: (modelName: string, request: LLMRequest, onText?: LLMTextListener, signal?: AbortSignal) => Promise<LLMResult>;
+}
+
+export const LLM_PROVIDERS: LLMProvider[] = [
+    {
+        id: 'groq',
+        name: 'Groq',
+        prefix: 'groq:',
+        capabilities: { vision: true, json: true, streaming: true },
+        credentialEnv: ['GROQ_API_KEY'],
+        // Free tier, currently active
+        models: [
+            { id: 'groq:meta-llama/llama-4-scout-17b-16e-instruct', name: '⚡👁 Llama 4 Scout 17B (Groq)' },
+            { id: 'groq:meta-llama/llama-4-maverick-17b-128e-instruct', name: '⚡👁 Llama 4 Maverick 17B (Groq)' },
+            { id: 'groq:llama-3.1-8b-instant', name: '⚡ Llama 3.1 8B Instant (Groq)', vision: false },
+            { id: 'groq:qwen/qwen3-32b', name: '⚡ Qwen 3 32B (Groq)', vision: false },
+        ],
+        generate: generateWithGroq,
+    },
+    {
+        id: 'gemini',
+        name: 'Google Gemini',
+        // Gemini model names start with 'gemini-' already, so it is kept
+        prefix: 'gemini-',
+        capabilities: { vision: true, json: true, streaming: true },
+        credentialEnv: ['GOOGLE_GENERATIVE_AI_API_KEY', 'GOOGLE_AI_API_KEY'],
+        // Free tier
+        models: [
+            { id: 'gemini-2.0-flash', name: 'Gemini 2.0 Flash' },
+            { id: 'gemini-2.0-flash-lite', name: 'Gemini 2.0 Flash Lite' },
+            { id: 'gemini-1.5-flash', name: 'Gemini 1.5 Flash' },
+        ],
+        generate: generateWithGemini,
+    },
+    {
+        id: 'openai-compatible',
+        name: 'OpenAI-compatible',
+        prefix: 'openai-compatible:',
+        // Depends on the served model; requests are passed through and left to it
+        capabilities: { vision: true, json: true, streaming: true },
+        credentialEnv: ['OPENAI_COMPATIBLE_BASE_URL'],
+        models: [],
+        listModels: listOpenAICompatibleModels,
+        generate: generateWithOpenAICompatible,
+    },
+];
+
+/**
+ * Provider a model ID belongs to, and the model's name at that provider
+ */
+export function resolveModel(modelId: string): { provider: LLMProvider; modelName: string } | null {
+    const provider = LLM_PROVIDERS.find(p => modelId.startsWith(p.prefix));
+    if (!provider) return null;
+
+    // Our 'name:' prefixes are stripped; Gemini's is part of the model name
+    const modelName = provider.prefix.endsWith(':') ? modelId.slice(provider.prefix.length) : modelId;
+    return { provider, modelName };
+}
+
+/**
+ * Whether a model takes images. Models the registry doesn't list are given
+ * the benefit of the doubt and left for the provider to reject.
+ */
+export function supportsVision(modelId: string): boolean {
+    const provider = resolveModel(modelId)?.provider;
+    if (!provider) return true;
+    return provider.models.find(m => m.id === modelId)?.vision ?? provider.capabilities.vision;
+}
+
+/**
+ * Whether the provider's credentials are in the environment (server only)
+ */
+export function isProviderConfigured(provider: LLMProvider): boolean {
+    return provider.credentialEnv.some(name => Boolean(process.env[name]));
+}
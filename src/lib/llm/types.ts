@@ -0,0 +1,47 @@
+import type { JsonSchema } from './json-output';
+
+// Provider-neutral LLM request, as carried by the llm-execution task payload
+// and mapped onto each SDK by the provider modules.
+
+export type LLMRole = 'system' | 'user' | 'assistant';
+
+export interface LLMMessage {
+    role: LLMRole;
+    content: string;
+}
+
+export interface LLMRequest {
+    // Prefixed model ID, e.g. 'groq:qwen/qwen3-32b' or 'gemini-2.0-flash'
+    model: string;
+    messages: LLMMessage[];
+    // Images for the last user message, as http(s) or data: URLs
+    images?: string[];
+    temperature?: number;
+    maxTokens?: number;
+    topP?: number;
+    stop?: string[];
+    // Let reasoning models think before answering; only the answer is returned
+    thinking?: boolean;
+    // Answer with a JSON object matching this schema; the text returned is that JSON
+    jsonSchema?: JsonSchema;
+}
+
+// Tokens a request used, as the provider reported them
+export interface LLMUsage {
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+}
+
+export interface LLMResult {
+    text: string;
+    usage: LLMUsage;
+}
+
+// Called as a streamed answer arrives, with all of the text so far
+export type LLMTextListener = (text: string) => void;
+
+export const LLM_DEFAULTS = {
+    temperature: 0.7,
+    maxTokens: 4096,
+} as const;
@@ -270,6 +270,26 @@ export async function uploadImage(file: File | Blob): Promise<string> {
     throw new Error('No results from Transloadit');
 }
 
+/**
+ * Upload a video as-is and get its URL
+ */
+export async function uploadVideo(file: File | Blob): Promise<string> {
+    const steps = {
+        ':original': {
+            robot: '/upload/handle',
+        },
+    };
+
+    const assembly = await createAssembly(file, steps);
+    const completed = await waitForAssembly(assembly.assembly_ssl_url, 120000);
+
+    if (completed.results[':original'] && completed.results[':original'].length > 0) {
+        return completed.results[':original'][0].ssl_url;
+    }
+
+    throw new Error('No results from Transloadit');
+}
+
 /**
  * Extract a frame from a video
  */
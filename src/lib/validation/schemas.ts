@@ -1,65 +1,89 @@
 import { z } from 'zod';
 
-// Node data schemas
-export const textNodeDataSchema = z.object({
-    label: z.string(),
-    text: z.string(),
-    status: z.enum(['idle', 'running', 'success', 'error']).optional(),
+// Node data schemas (mirror the interfaces in types/nodes.ts)
+export const nodeStatusSchema = z.enum(['idle', 'running', 'success', 'error', 'skipped']);
+
+export const baseNodeDataSchema = z.object({
+    label: z.string({ error: 'Node label must be a string' }),
+    status: nodeStatusSchema.optional(),
     output: z.unknown().optional(),
     error: z.string().optional(),
+    isLocked: z.boolean().optional(),
+    retries: z.number().int().min(0, { error: 'Retries cannot be negative' }).optional(),
+    timeoutMs: z.number().int().positive({ error: 'Timeout must be a positive number of milliseconds' }).optional(),
+    backoff: z.object({
+        strategy: z.enum(['fixed', 'exponential'], { error: 'Backoff strategy must be fixed or exponential' }),
+        delayMs: z.number().min(0, { error: 'Backoff delay cannot be negative' }),
+    }).optional(),
+    workflowInput: z.object({
+        name: z.string().min(1, { error: 'Workflow input name is required' }),
+        type: z.enum(['text', 'image', 'video'], { error: 'Workflow input type must be text, image or video' }),
+    }).optional(),
+});
+
+export const textNodeDataSchema = baseNodeDataSchema.extend({
+    text: z.string({ error: 'Text node needs a text string' }),
+    splitLines: z.boolean().optional(),
 });
 
-export const uploadImageNodeDataSchema = z.object({
-    label: z.string(),
+export const uploadImageNodeDataSchema = baseNodeDataSchema.extend({
     imageUrl: z.string().optional(),
+    imageUrls: z.array(z.string()).optional(),
     fileName: z.string().optional(),
-    status: z.enum(['idle', 'running', 'success', 'error']).optional(),
-    output: z.unknown().optional(),
-    error: z.string().optional(),
 });
 
-export const uploadVideoNodeDataSchema = z.object({
-    label: z.string(),
+export const uploadVideoNodeDataSchema = baseNodeDataSchema.extend({
     videoUrl: z.string().optional(),
     fileName: z.string().optional(),
-    status: z.enum(['idle', 'running', 'success', 'error']).optional(),
-    output: z.unknown().optional(),
-    error: z.string().optional(),
 });
 
-export const llmNodeDataSchema = z.object({
-    label: z.string(),
-    model: z.string(),
+export const llmNodeDataSchema = baseNodeDataSchema.extend({
+    model: z.string({ error: 'LLM node needs a model' }),
     systemPrompt: z.string().optional(),
     userMessage: z.string().optional(),
     images: z.array(z.string()).optional(),
+    imageInputIds: z.array(z.string()).optional(),
     response: z.string().optional(),
-    status: z.enum(['idle', 'running', 'success', 'error']).optional(),
-    output: z.unknown().optional(),
-    error: z.string().optional(),
+    temperature: z.number().min(0, { error: 'Temperature must be between 0 and 2' }).max(2, { error: 'Temperature must be between 0 and 2' }).optional(),
+    maxTokens: z.number().int().positive({ error: 'Max tokens must be a positive whole number' }).optional(),
+    topP: z.number().min(0, { error: 'Top-p must be between 0 and 1' }).max(1, { error: 'Top-p must be between 0 and 1' }).optional(),
+    stopSequences: z.array(z.string()).max(4, { error: 'At most 4 stop sequences' }).optional(),
+    thinking: z.boolean().optional(),
+    outputMode: z.enum(['text', 'json']).optional(),
+    jsonSchema: z.string().optional(),
+    chatMode: z.boolean().optional(),
+    messages: z.array(z.object({
+        role: z.enum(['user', 'assistant'], { error: 'Chat messages must be user or assistant turns' }),
+        content: z.string(),
+    })).optional(),
 });
 
-export const cropImageNodeDataSchema = z.object({
-    label: z.string(),
+const percentSchema = z.number({ error: 'Crop values must be numbers' })
+    .min(0, { error: 'Crop values must be between 0 and 100' })
+    .max(100, { error: 'Crop values must be between 0 and 100' });
+
+export const cropImageNodeDataSchema = baseNodeDataSchema.extend({
     imageUrl: z.string().optional(),
-    xPercent: z.number().min(0).max(100),
-    yPercent: z.number().min(0).max(100),
-    widthPercent: z.number().min(0).max(100),
-    heightPercent: z.number().min(0).max(100),
+    xPercent: percentSchema,
+    yPercent: percentSchema,
+    widthPercent: percentSchema,
+    heightPercent: percentSchema,
     croppedUrl: z.string().optional(),
-    status: z.enum(['idle', 'running', 'success', 'error']).optional(),
-    output: z.unknown().optional(),
-    error: z.string().optional(),
+    // Only set once the node's crop controls have been used
+    aspectRatio: z.enum(['1:1', '3:4', '4:3', '16:9', '9:16', 'custom'], { error: 'Unknown aspect ratio' }).optional(),
+    sourceWidth: z.number().positive().optional(),
+    sourceHeight: z.number().positive().optional(),
+    outputWidth: z.number().positive().optional(),
+    outputHeight: z.number().positive().optional(),
 });
 
-export const extractFrameNodeDataSchema = z.object({
-    label: z.string(),
+export const extractFrameNodeDataSchema = baseNodeDataSchema.extend({
     videoUrl: z.string().optional(),
-    timestamp: z.string(),
+    timestamp: z.string({ error: 'Extract frame node needs a timestamp' }),
     frameUrl: z.string().optional(),
-    status: z.enum(['idle', 'running', 'success', 'error']).optional(),
-    output: z.unknown().optional(),
-    error: z.string().optional(),
+    frame: z.number().optional(),
+    timecode: z.string().optional(),
+    videoDuration: z.number().min(0).optional(),
 });
 
 // Position schema
@@ -68,28 +92,35 @@ export const positionSchema = z.object({
     y: z.number(),
 });
 
-// Generic node schema
-export const nodeSchema = z.object({
-    id: z.string(),
-    type: z.enum(['text', 'uploadImage', 'uploadVideo', 'llm', 'cropImage', 'extractFrame']),
-    position: positionSchema,
-    data: z.union([
-        textNodeDataSchema.passthrough(),
-        uploadImageNodeDataSchema.passthrough(),
-        uploadVideoNodeDataSchema.passthrough(),
-        llmNodeDataSchema.passthrough(),
-        cropImageNodeDataSchema.passthrough(),
-        extractFrameNodeDataSchema.passthrough(),
-    ]),
-});
+// Node schema: the data schema is chosen by the node's type. Extra keys are
+// kept, both React Flow's own (measured, selected, ...) and UI-only data fields.
+const nodeOfType = <T extends string, D extends z.ZodObject>(type: T, data: D) =>
+    z.object({
+        id: z.string({ error: 'Node id must be a string' }),
+        type: z.literal(type),
+        position: positionSchema,
+        data: data.passthrough(),
+    }).passthrough();
+
+export const nodeSchema = z.discriminatedUnion('type', [
+    nodeOfType('text', textNodeDataSchema),
+    nodeOfType('uploadImage', uploadImageNodeDataSchema),
+    nodeOfType('uploadVideo', uploadVideoNodeDataSchema),
+    nodeOfType('llm', llmNodeDataSchema),
+    nodeOfType('cropImage', cropImageNodeDataSchema),
+    nodeOfType('extractFrame', extractFrameNodeDataSchema),
+], { error: 'Unknown node type' });
 
 // Edge schema
 export const edgeSchema = z.object({
     id: z.string(),
     source: z.string(),
     target: z.string(),
-    sourceHandle: z.string().optional(),
-    targetHandle: z.string().optional(),
+    sourceHandle: z.string().nullish(),
+    targetHandle: z.string().nullish(),
+    type: z.string().optional(),
+    animated: z.boolean().optional(),
+    data: z.record(z.string(), z.unknown()).optional(),
 });
 
 // Workflow schemas
@@ -105,13 +136,51 @@ export const updateWorkflowSchema = z.object({
     description: z.string().max(500).optional(),
     nodes: z.array(nodeSchema).optional(),
     edges: z.array(edgeSchema).optional(),
+    // Describes the version a graph edit is saved as
+    message: z.string().max(500).optional(),
+});
+
+// Workflow file schema (current export format, after migrations)
+export const workflowExportSchema = z.object({
+    format: z.literal('weavy-workflow'),
+    schemaVersion: z.number().int(),
+    exportedAt: z.string(),
+    workflow: z.object({
+        name: z.string().max(100),
+        nodes: z.array(nodeSchema),
+        edges: z.array(edgeSchema),
+    }),
+    // Bundles only: uploaded media by the URL the nodes reference
+    assets: z.record(z.string(), z.object({
+        mimeType: z.string(),
+        data: z.string(), // base64
+    })).optional(),
 });
 
 // Workflow run schemas
 export const createRunSchema = z.object({
     workflowId: z.string(),
-    scope: z.enum(['FULL', 'PARTIAL', 'SINGLE']),
+    scope: z.enum(['FULL', 'PARTIAL', 'SINGLE', 'FROM_NODE']),
     nodeIds: z.array(z.string()).optional(),
+    sourceRunId: z.string().optional(),
+});
+
+// Workflow schedule schemas
+// Values for the workflow's declared inputs, by input name
+export const scheduleInputsSchema = z.record(z.string(), z.string());
+
+export const createScheduleSchema = z.object({
+    cron: z.string().min(1, 'Cron expression is required').max(100),
+    timezone: z.string().min(1).default('UTC'),
+    inputs: scheduleInputsSchema.nullish(),
+    enabled: z.boolean().default(true),
+});
+
+export const updateScheduleSchema = z.object({
+    cron: z.string().min(1).max(100).optional(),
+    timezone: z.string().min(1).optional(),
+    inputs: scheduleInputsSchema.nullish(),
+    enabled: z.boolean().optional(),
 });
 
 // LLM execution schema
@@ -140,6 +209,7 @@ export const extractFrameExecutionSchema = z.object({
 // Export types
 export type CreateWorkflowInput = z.infer<typeof createWorkflowSchema>;
 export type UpdateWorkflowInput = z.infer<typeof updateWorkflowSchema>;
+export type WorkflowExportInput = z.infer<typeof workflowExportSchema>;
 export type CreateRunInput = z.infer<typeof createRunSchema>;
 export type LLMExecutionInput = z.infer<typeof llmExecutionSchema>;
 export type CropImageExecutionInput = z.infer<typeof cropImageExecutionSchema>;
@@ -0,0 +1,60 @@
+import { uploadImage, uploadVideo } from '@/lib/transloadit';
+import { fetchHostedMedia, isHostedMediaUrl, readBodyWithLimit } from '@/lib/hosted-media';
+import {
+    WorkflowExport,
+    PortableWorkflow,
+    WorkflowFileError,
+    getMediaUrls,
+    replaceMediaUrls,
+} from '@/lib/workflow-export';
+
+// Bundles: workflow files that carry their uploaded media inline, so the
+// workflow still works after moving to an account without access to the
+// original uploads. Server only — media is fetched and re-uploaded here.
+
+const MAX_BUNDLED_ASSET_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Download every uploaded image and video the workflow references into the file.
+ * Media hosted anywhere else is left out and keeps pointing at its URL.
+ */
+export async function bundleWorkflowAssets(file: WorkflowExport): Promise<WorkflowExport> {
+    const assets: NonNullable<WorkflowExport['assets']> = {};
+
+    for (const url of getMediaUrls(file.workflow.nodes).filter(isHostedMediaUrl)) {
+        const response = await fetchHostedMedia(url);
+        if (!response.ok) {
+            throw new WorkflowFileError(`Could not download ${url} (${response.status})`);
+        }
+
+        const buffer = await readBodyWithLimit(response, MAX_BUNDLED_ASSET_BYTES);
+        if (!buffer) {
+            throw new WorkflowFileError(`${url} is too large to bundle (limit ${MAX_BUNDLED_ASSET_BYTES / 1024 / 1024} MB)`);
+        }
+
+        assets[url] = {
+            mimeType: response.headers.get('content-type') || 'application/octet-stream',
+            data: buffer.toString('base64'),
+        };
+    }
+
+    return { ...file, assets };
+}
+
+/**
+ * Upload a bundle's media for the importing user and point the nodes at the new copies
+ */
+export async function unbundleWorkflowAssets(file: WorkflowExport): Promise<PortableWorkflow> {
+    if (!file.assets) return file.workflow;
+
+    const uploaded = new Map<string, string>();
+    for (const url of getMediaUrls(file.workflow.nodes)) {
+        const asset = file.assets[url];
+        if (!asset) continue;
+
+        const blob = new Blob([Buffer.from(asset.data, 'base64')], { type: asset.mimeType });
+        uploaded.set(url, asset.mimeType.startsWith('video/') ? await uploadVideo(blob) : await uploadImage(blob));
+    }
+
+    return { ...file.workflow, nodes: replaceMediaUrls(file.workflow.nodes, uploaded) };
+}
@@ -0,0 +1,57 @@
+import { after } from 'next/server';
+import { Node, Edge } from '@xyflow/react';
+import { tasks } from '@trigger.dev/sdk/v3';
+import type { workflowOrchestratorTask } from '@/trigger/workflow-orchestrator';
+import { WorkflowNodeData } from '@/types/nodes';
+import { FailurePolicy } from './events';
+import { ConcurrencyLimits } from './concurrency';
+import { WorkflowExecutor, ExecutionScope } from './executor';
+import { shouldSkipTriggerDev } from './node-executors/shared';
+
+// Everything needed to execute an already-created run away from the HTTP request
+export interface BackgroundRunPayload {
+    runId: string;
+    workflowId: string;
+    userId: string;
+    nodes: Node<WorkflowNodeData>[];
+    edges: Edge[];
+    scope: ExecutionScope;
+    nodeIds?: string[];
+    sourceRunId?: string;
+    failurePolicy?: FailurePolicy;
+    forceRerun?: boolean;
+    concurrency?: ConcurrencyLimits;
+}
+
+/**
+ * Hand a run to the Trigger.dev orchestrator task so it survives the request
+ * (and the browser tab). Falls back to finishing the run in this process
+ * after the response has been sent.
+ */
+export async function startBackgroundRun(payload: BackgroundRunPayload): Promise<void> {
+    if (!shouldSkipTriggerDev()) {
+        try {
+            const handle = await tasks.trigger<typeof workflowOrchestratorTask>('workflow-orchestrator', payload);
+            console.log('[Trigger.dev] Workflow orchestrator triggered, run ID:', handle.id);
+            return;
+        } catch (error) {
+            console.warn('Trigger.dev unavailable, running workflow in-process:', error);
+        }
+    }
+
+    after(async () => {
+        const executor = new WorkflowExecutor(payload.nodes, payload.edges, payload.workflowId, payload.userId);
+        try {
+            await executor.execute(payload.scope, {
+                runId: payload.runId,
+                nodeIds: payload.nodeIds,
+                sourceRunId: payload.sourceRunId,
+                failurePolicy: payload.failurePolicy,
+                forceRerun: payload.forceRerun,
+                concurrency: payload.concurrency,
+            });
+        } catch (error) {
+            console.error(`[Background] Run ${payload.runId} failed:`, error);
+        }
+    });
+}
@@ -0,0 +1,32 @@
+import crypto from 'crypto';
+import prisma from '@/lib/db';
+import { stableStringify } from '@/lib/stable-json';
+
+// Content-addressed cache over NodeResult: a node whose type, relevant data
+// fields and resolved inputs hash to a key seen before reuses that output.
+
+export function computeCacheKey(
+    nodeType: string,
+    fields: Record<string, unknown>,
+    inputs: Record<string, unknown>
+): string {
+    return crypto
+        .createHash('sha256')
+        .update(stableStringify({ nodeType, fields, inputs }))
+        .digest('hex');
+}
+
+/**
+ * Most recent successful result with this key from any of the user's runs
+ */
+export async function findCachedResult(cacheKey: string, userId: string) {
+    return prisma.nodeResult.findFirst({
+        where: {
+            cacheKey,
+            status: 'SUCCESS',
+            run: { userId },
+        },
+        orderBy: { completedAt: 'desc' },
+        select: { output: true, items: true },
+    });
+}
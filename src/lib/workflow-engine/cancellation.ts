@@ -0,0 +1,44 @@
+// In-process registry of abort controllers for runs executing on this server.
+// The cancel endpoint aborts the local controller when the run lives here;
+// runs executing on another instance notice the CANCELLED status in the DB
+// between layers, and their in-flight Trigger.dev runs are cancelled directly.
+
+const activeRuns = new Map<string, AbortController>();
+
+/**
+ * Thrown when a node stops because its run was cancelled.
+ * Executors must rethrow it instead of falling back to direct execution.
+ */
+export class RunCancelledError extends Error {
+    constructor() {
+        super('Run cancelled');
+        this.name = 'RunCancelledError';
+    }
+}
+
+export function registerRun(runId: string): AbortController {
+    const controller = new AbortController();
+    activeRuns.set(runId, controller);
+    return controller;
+}
+
+export function unregisterRun(runId: string): void {
+    activeRuns.delete(runId);
+}
+
+/**
+ * Abort a run executing in this process. Returns false if it isn't running here.
+ */
+export function abortRun(runId: string): boolean {
+    const controller = activeRuns.get(runId);
+    if (!controller) return false;
+
+    controller.abort(new RunCancelledError());
+    return true;
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        throw new RunCancelledError();
+    }
+}
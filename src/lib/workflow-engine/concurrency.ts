@@ -0,0 +1,114 @@
+// Bounds how much of a run executes at once: a cap on concurrently executing
+// nodes and on the items of a node running over a list, plus a separate cap
+// per external provider so a wide layer of LLM nodes doesn't hit Groq or
+// Gemini with every request at the same time.
+
+export type Provider = 'groq' | 'gemini' | 'openai-compatible' | 'transloadit';
+
+export interface ConcurrencyLimits {
+    // Nodes executing at once within a run
+    maxParallel?: number;
+    // Items of one list-fed node executing at once
+    maxItemParallel?: number;
+    // Requests in flight at once per provider within a run
+    providers?: Partial<Record<Provider, number>>;
+}
+
+export const DEFAULT_CONCURRENCY_LIMITS: Required<ConcurrencyLimits> = {
+    maxParallel: 4,
+    maxItemParallel: 4,
+    // A local OpenAI-compatible server usually serves one request at a time
+    providers: { groq: 2, gemini: 2, 'openai-compatible': 1, transloadit: 3 },
+};
+
+/**
+ * Thrown by node executors when a provider answers 429.
+ * WorkflowExecutor waits retryAfterMs and tries again without using up a retry.
+ */
+export class RateLimitError extends Error {
+    constructor(public provider: Provider, public retryAfterMs?: number) {
+        super(`${provider} rate limit reached`);
+        this.name = 'RateLimitError';
+    }
+}
+
+/**
+ * Parse a Retry-After header value (delta seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+    if (!value) return undefined;
+
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export class Semaphore {
+    private active = 0;
+    private waiting: (() => void)[] = [];
+
+    constructor(private limit: number) { }
+
+    async run<T>(fn: () => Promise<T>): Promise<T> {
+        await this.acquire();
+        try {
+            return await fn();
+        } finally {
+            this.release();
+        }
+    }
+
+    private acquire(): Promise<void> {
+        if (this.active < this.limit) {
+            this.active++;
+            return Promise.resolve();
+        }
+        return new Promise(resolve => this.waiting.push(resolve));
+    }
+
+    private release(): void {
+        // Hand the slot straight to the next waiter, if any
+        const next = this.waiting.shift();
+        if (next) next();
+        else this.active--;
+    }
+}
+
+/**
+ * The semaphores enforcing one run's ConcurrencyLimits
+ */
+export class ConcurrencyLimiter {
+    private nodes: Semaphore;
+    private itemLimit: number;
+    private providers: Record<Provider, Semaphore>;
+
+    constructor(limits: ConcurrencyLimits = {}) {
+        const providerLimits = { ...DEFAULT_CONCURRENCY_LIMITS.providers, ...limits.providers };
+
+        this.nodes = new Semaphore(limits.maxParallel ?? DEFAULT_CONCURRENCY_LIMITS.maxParallel);
+        this.itemLimit = limits.maxItemParallel ?? DEFAULT_CONCURRENCY_LIMITS.maxItemParallel;
+        this.providers = {
+            groq: new Semaphore(providerLimits.groq ?? 1),
+            gemini: new Semaphore(providerLimits.gemini ?? 1),
+            'openai-compatible': new Semaphore(providerLimits['openai-compatible'] ?? 1),
+            transloadit: new Semaphore(providerLimits.transloadit ?? 1),
+        };
+    }
+
+    forNode<T>(fn: () => Promise<T>): Promise<T> {
+        return this.nodes.run(fn);
+    }
+
+    /**
+     * A fresh cap for the items of one node running over a list
+     */
+    forItems(): Semaphore {
+        return new Semaphore(this.itemLimit);
+    }
+
+    forProvider<T>(provider: Provider | null, fn: () => Promise<T>): Promise<T> {
+        return provider ? this.providers[provider].run(fn) : fn();
+    }
+}
@@ -0,0 +1,239 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week)
+// for WorkflowSchedule, read in the schedule's IANA time zone. Fields take
+// `*`, numbers, ranges (`1-5`), lists (`1,15`) and steps (`*/15`, `0-30/10`);
+// months and weekdays also take names (`JAN`, `MON`). `@hourly`, `@daily`,
+// `@weekly`, `@monthly` and `@yearly` stand for their usual expressions.
+
+export interface CronExpression {
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>; // 0 = Sunday
+    // Cron matches either day field when both are restricted, otherwise both
+    anyDayOfMonth: boolean;
+    anyDayOfWeek: boolean;
+}
+
+/**
+ * Thrown for an expression or time zone that can't be scheduled, with a message fit for the user
+ */
+export class CronError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CronError';
+    }
+}
+
+const MACROS: Record<string, string> = {
+    '@yearly': '0 0 1 1 *',
+    '@annually': '0 0 1 1 *',
+    '@monthly': '0 0 1 * *',
+    '@weekly': '0 0 * * 0',
+    '@daily': '0 0 * * *',
+    '@midnight': '0 0 * * *',
+    '@hourly': '0 * * * *',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+interface FieldSpec {
+    name: string;
+    min: number;
+    max: number;
+    names?: string[]; // names[i] stands for min + i
+}
+
+const FIELDS: FieldSpec[] = [
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day of month', min: 1, max: 31 },
+    { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+    // 7 is accepted as Sunday too
+    { name: 'day of week', min: 0, max: 7, names: DAY_NAMES },
+];
+
+// Plenty for any expression that matches at all (Feb 29 comes round within
+// 8 years); ones like `0 0 30 2 *` never do
+const MAX_SEARCH_STEPS = 100_000;
+
+/**
+ * Parse a cron expression, throwing CronError when it's malformed
+ */
+export function parseCron(expression: string): CronExpression {
+    const trimmed = expression.trim();
+    const fields = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+    if (fields.length !== FIELDS.length) {
+        throw new CronError(`Expected 5 fields (minute hour day-of-month month day-of-week), got ${fields.length}`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(field, FIELDS[index]));
+    if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+    return {
+        minutes,
+        hours,
+        daysOfMonth,
+        months,
+        daysOfWeek,
+        anyDayOfMonth: fields[2] === '*',
+        anyDayOfWeek: fields[4] === '*',
+    };
+}
+
+/**
+ * Whether timeZone is an IANA time zone this runtime knows
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * First time strictly after `after` that the expression matches in timeZone.
+ * Wall-clock times skipped by a daylight saving change run an hour later.
+ */
+export function getNextCronTime(expression: string | CronExpression, after: Date, timeZone = 'UTC'): Date {
+    const cron = typeof expression === 'string' ? parseCron(expression) : expression;
+    if (!isValidTimeZone(timeZone)) {
+        throw new CronError(`Unknown time zone "${timeZone}"`);
+    }
+
+    // Walk wall-clock time in the zone (held in a Date's UTC fields), skipping
+    // whole months, days and hours that can't match
+    const start = toWallClock(after, timeZone);
+    let wall = new Date(Date.UTC(
+        start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate(), start.getUTCHours(), start.getUTCMinutes() + 1
+    ));
+
+    for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+        const year = wall.getUTCFullYear();
+        const month = wall.getUTCMonth();
+        const day = wall.getUTCDate();
+        const hour = wall.getUTCHours();
+
+        if (!cron.months.has(month + 1)) {
+            wall = new Date(Date.UTC(year, month + 1, 1));
+        } else if (!matchesDay(cron, wall)) {
+            wall = new Date(Date.UTC(year, month, day + 1));
+        } else if (!cron.hours.has(hour)) {
+            wall = new Date(Date.UTC(year, month, day, hour + 1));
+        } else if (!cron.minutes.has(wall.getUTCMinutes())) {
+            wall = new Date(wall.getTime() + 60_000);
+        } else {
+            const time = fromWallClock(wall, timeZone);
+            if (time > after) return time;
+            // The repeated hour after clocks go back: its second pass is already past
+            wall = new Date(wall.getTime() + 60_000);
+        }
+    }
+
+    throw new CronError('The expression never matches a date');
+}
+
+/**
+ * The next `count` times the expression matches after `after`
+ */
+export function getUpcomingCronTimes(expression: string, after: Date, timeZone: string, count: number): Date[] {
+    const cron = parseCron(expression);
+    const times: Date[] = [];
+    let previous = after;
+    for (let i = 0; i < count; i++) {
+        previous = getNextCronTime(cron, previous, timeZone);
+        times.push(previous);
+    }
+    return times;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+        const [range, stepText, extra] = part.split('/');
+        const step = stepText === undefined ? 1 : Number(stepText);
+        if (extra !== undefined || !Number.isInteger(step) || step < 1) {
+            throw new CronError(`Invalid step in ${spec.name} field "${field}"`);
+        }
+
+        let from: number;
+        let to: number;
+        if (range === '*') {
+            from = spec.min;
+            to = spec.max;
+        } else {
+            const [startText, endText, rest] = range.split('-');
+            if (rest !== undefined) throw new CronError(`Invalid range in ${spec.name} field "${field}"`);
+            from = parseValue(startText, spec, field);
+            // `5/15` runs from 5 to the end of the field
+            to = endText !== undefined ? parseValue(endText, spec, field) : stepText !== undefined ? spec.max : from;
+        }
+        if (from > to) {
+            throw new CronError(`Range ${from}-${to} runs backwards in ${spec.name} field "${field}"`);
+        }
+
+        for (let value = from; value <= to; value += step) values.add(value);
+    }
+    return values;
+}
+
+function parseValue(text: string, spec: FieldSpec, field: string): number {
+    const nameIndex = spec.names?.indexOf(text.toUpperCase()) ?? -1;
+    const value = nameIndex >= 0 ? spec.min + nameIndex : /^\d+$/.test(text) ? Number(text) : NaN;
+
+    if (Number.isNaN(value) || value < spec.min || value > spec.max) {
+        throw new CronError(`Invalid ${spec.name} "${text}" in "${field}" (expected ${spec.min}-${spec.max})`);
+    }
+    return value;
+}
+
+function matchesDay(cron: CronExpression, wall: Date): boolean {
+    const dayOfMonth = cron.daysOfMonth.has(wall.getUTCDate());
+    const dayOfWeek = cron.daysOfWeek.has(wall.getUTCDay());
+
+    if (!cron.anyDayOfMonth && !cron.anyDayOfWeek) return dayOfMonth || dayOfWeek;
+    return dayOfMonth && dayOfWeek;
+}
+
+const wallClockFormats = new Map<string, Intl.DateTimeFormat>();
+
+// The wall-clock time in timeZone at `date`, as a Date whose UTC fields hold it
+function toWallClock(date: Date, timeZone: string): Date {
+    let format = wallClockFormats.get(timeZone);
+    if (!format) {
+        format = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+        });
+        wallClockFormats.set(timeZone, format);
+    }
+
+    const parts = Object.fromEntries(format.formatToParts(date).map(part => [part.type, Number(part.value)]));
+    return new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute));
+}
+
+// The first instant the wall-clock time occurs in timeZone
+function fromWallClock(wall: Date, timeZone: string): Date {
+    const offsetAt = (date: Date) => toWallClock(date, timeZone).getTime() - Math.floor(date.getTime() / 60_000) * 60_000;
+    // The zone's offsets a day either side cover any daylight saving change in between
+    const offsetBefore = offsetAt(new Date(wall.getTime() - DAY_MS));
+    const offsetAfter = offsetAt(new Date(wall.getTime() + DAY_MS));
+
+    for (const offset of [offsetBefore, offsetAfter]) {
+        const time = new Date(wall.getTime() - offset);
+        if (toWallClock(time, timeZone).getTime() === wall.getTime()) return time;
+    }
+    // Skipped when the clocks went forward: read on the old offset it falls just after the change
+    return new Date(wall.getTime() - offsetBefore);
+}
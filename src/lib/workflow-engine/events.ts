@@ -0,0 +1,131 @@
+import type { ChatMessage } from '@/types/nodes';
+import type { NodeAttempt } from './retry';
+import type { NodeUsage } from './usage';
+
+// Execution events streamed by POST /api/workflows/execute when `stream: true`
+// is requested. The response body is NDJSON: one JSON-encoded event per line.
+
+export type RunStatus = 'SUCCESS' | 'FAILED' | 'PARTIAL' | 'CANCELLED';
+
+// What a run does once a node fails:
+//   CONTINUE        — keep executing every remaining node
+//   STOP_ALL        — skip everything in the layers that follow
+//   SKIP_DEPENDENTS — skip only nodes downstream of the failure
+export type FailurePolicy = 'CONTINUE' | 'STOP_ALL' | 'SKIP_DEPENDENTS';
+
+// Used by the editor, the execute route and scheduled runs alike, so a graph
+// behaves the same however it's run
+export const DEFAULT_FAILURE_POLICY: FailurePolicy = 'SKIP_DEPENDENTS';
+
+export interface NodeExecutionResult {
+    nodeId: string;
+    status: 'SUCCESS' | 'FAILED' | 'SKIPPED';
+    output?: unknown;
+    error?: string;
+    duration: number;
+    cacheHit?: boolean; // output reused from an earlier identical execution
+    usage?: NodeUsage; // LLM tokens and estimated cost
+    messages?: ChatMessage[]; // chat-mode LLM nodes: the conversation ending in this output
+    items?: NodeItemResult[]; // nodes fed a list: one entry per item, output is the list of item outputs
+}
+
+// One item of a node that ran once per item of a list input
+export interface NodeItemResult {
+    index: number;
+    status: 'SUCCESS' | 'FAILED';
+    input: Record<string, unknown>;
+    output?: unknown;
+    error?: string;
+    duration: number;
+    attempts: NodeAttempt[];
+}
+
+export interface LayerExecutionResult {
+    layer: number;
+    nodeIds: string[];
+    duration: number; // how long this layer actually took on the server
+}
+
+export interface WorkflowExecutionSummary {
+    runId: string;
+    workflowId: string;
+    status: RunStatus;
+    results: NodeExecutionResult[];
+    layerResults: LayerExecutionResult[];
+    duration: number;
+}
+
+export type ExecutionEvent =
+    | { type: 'run-started'; runId: string; workflowId: string; layers: string[][] }
+    | { type: 'node-started'; nodeId: string; layer?: number } // layer is unknown when replayed from polling
+    | { type: 'node-output'; nodeId: string; text: string } // text streamed so far, throttled
+    | { type: 'node-completed'; nodeId: string; output: unknown; duration: number; cacheHit?: boolean; messages?: ChatMessage[] }
+    | { type: 'node-failed'; nodeId: string; error: string; duration: number }
+    | { type: 'node-skipped'; nodeId: string; reason: string }
+    | ({ type: 'run-completed' } & WorkflowExecutionSummary)
+    | { type: 'run-failed'; error: string };
+
+// NodeResult.output is a Json column, so primitive outputs are stored as { value }
+export function toStoredOutput(output: unknown): object {
+    return output !== null && typeof output === 'object' ? output : { value: output };
+}
+
+export function fromStoredOutput(stored: unknown): unknown {
+    if (stored && typeof stored === 'object' && !Array.isArray(stored)) {
+        const keys = Object.keys(stored);
+        if (keys.length === 1 && keys[0] === 'value') {
+            return (stored as { value: unknown }).value;
+        }
+    }
+    return stored;
+}
+
+export const EXECUTION_STREAM_CONTENT_TYPE = 'application/x-ndjson';
+
+/**
+ * Encode a single event as an NDJSON line
+ */
+export function encodeExecutionEvent(event: ExecutionEvent): string {
+    return `${JSON.stringify(event)}\n`;
+}
+
+/**
+ * Read an NDJSON execution stream, invoking onEvent for every event as it arrives.
+ * Resolves once the server closes the stream.
+ */
+export async function readExecutionEvents(
+    response: Response,
+    onEvent: (event: ExecutionEvent) => void
+): Promise<void> {
+    if (!response.body) {
+        throw new Error('Execution stream has no body');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const flushLine = (line: string) => {
+        const trimmed = line.trim();
+        if (!trimmed) return;
+        onEvent(JSON.parse(trimmed) as ExecutionEvent);
+    };
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+
+        // Dispatch every complete line, keep the trailing partial line buffered
+        let newlineIndex = buffer.indexOf('\n');
+        while (newlineIndex !== -1) {
+            flushLine(buffer.slice(0, newlineIndex));
+            buffer = buffer.slice(newlineIndex + 1);
+            newlineIndex = buffer.indexOf('\n');
+        }
+    }
+
+    buffer += decoder.decode();
+    flushLine(buffer);
+}
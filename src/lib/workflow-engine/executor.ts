@@ -1,33 +1,68 @@
 import { Node, Edge } from '@xyflow/react';
-import { WorkflowNodeData, NodeType } from '@/types/nodes';
-import { topologicalSort, getConnectedInputs } from './validation';
+import { WorkflowNodeData } from '@/types/nodes';
+import { topologicalSort, getUpstreamNodes, getDownstreamNodes } from './validation';
+import { getNodeExecutor, resolveItemInputs, resolveNodeInputs, NodeExecutor } from './node-executors';
+import { registerRun, unregisterRun, RunCancelledError } from './cancellation';
+import { computeCacheKey, findCachedResult } from './cache';
+import { getRetryPolicy, getBackoffDelay, sleep, NodeAttempt, NodeTimeoutError } from './retry';
+import { ConcurrencyLimiter, ConcurrencyLimits, RateLimitError } from './concurrency';
+import { NodeUsage, UsageMeter } from './usage';
+import { PartialOutputWriter } from './partial-output';
+import {
+    DEFAULT_FAILURE_POLICY,
+    ExecutionEvent,
+    FailurePolicy,
+    LayerExecutionResult,
+    NodeExecutionResult,
+    NodeItemResult,
+    RunStatus,
+    WorkflowExecutionSummary,
+    fromStoredOutput,
+    toStoredOutput,
+} from './events';
 import prisma from '@/lib/db';
-import { tasks, runs } from "@trigger.dev/sdk/v3";
-import type { llmTask, cropImageTask, extractFrameTask } from "@/trigger";
 
-export type ExecutionScope = 'FULL' | 'PARTIAL' | 'SINGLE';
-
-export interface ExecutionResult {
-    nodeId: string;
-    status: 'SUCCESS' | 'FAILED';
-    output?: unknown;
-    error?: string;
-    duration: number;
-}
-
-export interface WorkflowExecutionResult {
-    runId: string;
-    status: 'SUCCESS' | 'FAILED' | 'PARTIAL';
-    results: ExecutionResult[];
-    duration: number;
+// Rate-limited attempts re-queued per node before the limit counts as a failure
+const MAX_RATE_LIMIT_WAITS = 5;
+
+export type ExecutionScope = 'FULL' | 'PARTIAL' | 'SINGLE' | 'FROM_NODE';
+
+// What started a run: the editor or API (MANUAL), or a WorkflowSchedule
+export type TriggerSource = 'MANUAL' | 'SCHEDULED';
+
+export interface ExecuteOptions {
+    // Nodes selected for PARTIAL / SINGLE / FROM_NODE runs
+    nodeIds?: string[];
+    // FROM_NODE runs: previous run whose outputs feed the nodes upstream of the selection
+    sourceRunId?: string;
+    // What to do with the rest of the run once a node fails (default: DEFAULT_FAILURE_POLICY)
+    failurePolicy?: FailurePolicy;
+    // Execute into a run record created earlier with createRun (background runs)
+    runId?: string;
+    // Execute every node even when a cached output matches its inputs
+    forceRerun?: boolean;
+    // Caps on concurrently executing nodes and per-provider requests
+    concurrency?: ConcurrencyLimits;
+    // Workflow input values to record on the run (already applied to the nodes)
+    inputs?: Record<string, string>;
+    // WorkflowVersion whose graph this run executes
+    versionId?: string;
+    // What started the run (default: MANUAL), and the schedule for SCHEDULED runs
+    triggerSource?: TriggerSource;
+    scheduleId?: string;
+    // Receives progress events as nodes start, complete or fail
+    onEvent?: (event: ExecutionEvent) => void;
 }
 
 /**
  * WorkflowExecutor class handles the execution of workflow nodes
- * with parallel processing of independent branches
+ * with parallel processing of independent branches.
+ * Per-node behaviour lives in the node-executors registry.
  */
 export class WorkflowExecutor {
-    private results: Map<string, ExecutionResult> = new Map();
+    private outputs: Map<string, unknown> = new Map();
+    private results: NodeExecutionResult[] = [];
+    private limiter = new ConcurrencyLimiter();
 
     constructor(
         private nodes: Node<WorkflowNodeData>[],
@@ -37,89 +72,125 @@ export class WorkflowExecutor {
     ) { }
 
     /**
-     * Execute the workflow with the specified scope
+     * Create the RUNNING workflow run record without executing anything yet
      */
-    async execute(
+    async createRun(
         scope: ExecutionScope,
-        selectedNodeIds?: string[],
-        onNodeStart?: (nodeId: string) => void,
-        onNodeComplete?: (nodeId: string, result: ExecutionResult) => void
-    ): Promise<WorkflowExecutionResult> {
-        const startTime = Date.now();
-
-        // Determine which nodes to execute
-        let nodesToExecute: Node<WorkflowNodeData>[];
-
-        switch (scope) {
-            case 'FULL':
-                nodesToExecute = this.nodes;
-                break;
-            case 'SINGLE':
-                nodesToExecute = this.nodes.filter(n => selectedNodeIds?.includes(n.id));
-                break;
-            case 'PARTIAL':
-                nodesToExecute = this.nodes.filter(n => selectedNodeIds?.includes(n.id));
-                break;
-            default:
-                nodesToExecute = this.nodes;
-        }
-
-        if (nodesToExecute.length === 0) {
-            return {
-                runId: '',
-                status: 'FAILED',
-                results: [],
-                duration: 0,
-            };
-        }
-
-        // Create workflow run record
+        options: Pick<ExecuteOptions, 'failurePolicy' | 'sourceRunId' | 'inputs' | 'versionId' | 'triggerSource' | 'scheduleId'> = {}
+    ): Promise<string> {
         const run = await prisma.workflowRun.create({
             data: {
                 workflowId: this.workflowId,
                 userId: this.userId,
                 scope,
+                failurePolicy: options.failurePolicy ?? DEFAULT_FAILURE_POLICY,
+                sourceRunId: options.sourceRunId,
+                inputs: options.inputs,
+                versionId: options.versionId,
+                triggerSource: options.triggerSource ?? 'MANUAL',
+                scheduleId: options.scheduleId,
                 status: 'RUNNING',
             },
         });
+        return run.id;
+    }
+
+    /**
+     * Execute the workflow with the specified scope
+     */
+    async execute(
+        scope: ExecutionScope,
+        options: ExecuteOptions = {}
+    ): Promise<WorkflowExecutionSummary> {
+        const { nodeIds, sourceRunId, inputs, versionId, onEvent, failurePolicy = DEFAULT_FAILURE_POLICY, forceRerun = false } = options;
+        const emit = (event: ExecutionEvent) => onEvent?.(event);
+
+        const nodesToExecute = this.selectNodes(scope, nodeIds);
+        this.limiter = new ConcurrencyLimiter(options.concurrency);
+
+        const run = { id: options.runId ?? await this.createRun(scope, { failurePolicy, sourceRunId, inputs, versionId }) };
+
+        const startTime = Date.now();
+        const controller = registerRun(run.id);
 
         try {
             // Get execution layers (nodes that can run in parallel)
             const executionLayers = topologicalSort(nodesToExecute, this.edges);
 
+            emit({ type: 'run-started', runId: run.id, workflowId: this.workflowId, layers: executionLayers });
+
+            // Nodes outside the run (or not yet executed) feed their last known output downstream
+            this.nodes.forEach(node => {
+                if (node.data?.output !== undefined) {
+                    this.outputs.set(node.id, node.data.output);
+                }
+            });
+
+            if (scope === 'FROM_NODE' && sourceRunId) {
+                await this.seedFromRun(sourceRunId, nodesToExecute);
+            }
+
+            const layerResults: LayerExecutionResult[] = [];
+
+            // Set under STOP_ALL once a layer contains a failure
+            let stopReason: string | null = null;
+
             // Execute layer by layer
-            for (const layer of executionLayers) {
-                // All nodes in a layer can execute concurrently
-                const layerPromises = layer.map(async (nodeId) => {
+            for (let layerIdx = 0; layerIdx < executionLayers.length; layerIdx++) {
+                // Pending layers never start once the run is cancelled
+                if (await this.isCancelled(run.id, controller.signal)) break;
+
+                const layer = executionLayers[layerIdx];
+                const layerStartTime = Date.now();
+
+                // Nodes in a layer execute concurrently, up to the run's parallelism limit
+                await Promise.all(layer.map(async (nodeId) => {
                     const node = this.nodes.find(n => n.id === nodeId);
                     if (!node) return;
 
-                    onNodeStart?.(nodeId);
-
-                    const result = await this.executeNode(node, run.id);
-                    this.results.set(nodeId, result);
+                    const skipReason = stopReason ?? (failurePolicy === 'SKIP_DEPENDENTS' ? this.getFailedDependency(nodeId) : null);
+                    if (skipReason) {
+                        this.results.push(await this.skipNode(node, run.id, skipReason));
+                        emit({ type: 'node-skipped', nodeId, reason: skipReason });
+                        return;
+                    }
 
-                    onNodeComplete?.(nodeId, result);
+                    const result = await this.limiter.forNode(() => {
+                        emit({ type: 'node-started', nodeId, layer: layerIdx });
+                        return this.executeNode(node, run.id, controller.signal, !forceRerun, emit);
+                    });
+                    this.results.push(result);
+
+                    if (result.status === 'SUCCESS') {
+                        emit({
+                            type: 'node-completed',
+                            nodeId,
+                            output: result.output,
+                            duration: result.duration,
+                            cacheHit: result.cacheHit,
+                            messages: result.messages,
+                        });
+                    } else {
+                        emit({ type: 'node-failed', nodeId, error: result.error || 'Unknown error', duration: result.duration });
+                    }
+                }));
 
-                    return result;
+                layerResults.push({
+                    layer: layerIdx,
+                    nodeIds: layer,
+                    duration: Date.now() - layerStartTime,
                 });
 
-                await Promise.all(layerPromises);
-
-                // Check if any node in the layer failed
-                const layerResults = layer.map(id => this.results.get(id));
-                const hasFailed = layerResults.some(r => r?.status === 'FAILED');
-
-                // For strict mode, stop execution on failure
-                // For now, continue execution
+                if (failurePolicy === 'STOP_ALL' && !stopReason) {
+                    const failed = this.results.find(r => r.status === 'FAILED');
+                    if (failed) {
+                        stopReason = `Run stopped after node ${failed.nodeId} failed`;
+                    }
+                }
             }
 
-            // Determine final status
-            const allResults = Array.from(this.results.values());
-            const hasFailures = allResults.some(r => r.status === 'FAILED');
-            const allSuccessful = allResults.every(r => r.status === 'SUCCESS');
-
-            const finalStatus = allSuccessful ? 'SUCCESS' : hasFailures ? 'PARTIAL' : 'SUCCESS';
+            const cancelled = await this.isCancelled(run.id, controller.signal);
+            const finalStatus: RunStatus = cancelled ? 'CANCELLED' : deriveRunStatus(this.results);
             const duration = Date.now() - startTime;
 
             // Update run record
@@ -132,137 +203,214 @@ export class WorkflowExecutor {
                 },
             });
 
-            return {
+            const summary: WorkflowExecutionSummary = {
                 runId: run.id,
+                workflowId: this.workflowId,
                 status: finalStatus,
-                results: allResults,
+                results: this.results,
+                layerResults,
                 duration,
             };
-        } catch (error) {
-            const duration = Date.now() - startTime;
 
+            emit({ type: 'run-completed', ...summary });
+
+            return summary;
+        } catch (error) {
+            // Don't leave the run stuck in RUNNING
             await prisma.workflowRun.update({
                 where: { id: run.id },
                 data: {
                     status: 'FAILED',
                     completedAt: new Date(),
-                    duration,
+                    duration: Date.now() - startTime,
                     error: error instanceof Error ? error.message : 'Unknown error',
                 },
             });
 
             throw error;
+        } finally {
+            unregisterRun(run.id);
+        }
+    }
+
+    /**
+     * A run is cancelled when its local controller was aborted, or when the
+     * cancel endpoint ran on another server instance and updated the DB
+     */
+    private async isCancelled(runId: string, signal: AbortSignal): Promise<boolean> {
+        if (signal.aborted) return true;
+
+        const run = await prisma.workflowRun.findUnique({
+            where: { id: runId },
+            select: { status: true },
+        });
+        return run?.status === 'CANCELLED';
+    }
+
+    private selectNodes(scope: ExecutionScope, nodeIds?: string[]): Node<WorkflowNodeData>[] {
+        return selectNodesInScope(this.nodes, this.edges, scope, nodeIds);
+    }
+
+    /**
+     * Feed nodes outside a FROM_NODE run with the output of their most recent
+     * successful result in the source run, instead of re-executing them
+     */
+    private async seedFromRun(sourceRunId: string, nodesToExecute: Node<WorkflowNodeData>[]): Promise<void> {
+        const executing = new Set(nodesToExecute.map(n => n.id));
+
+        const previous = await prisma.nodeResult.findMany({
+            where: { runId: sourceRunId, status: 'SUCCESS' },
+            orderBy: { completedAt: 'desc' },
+            select: { nodeId: true, output: true },
+        });
+
+        const seeded = new Set<string>();
+        for (const result of previous) {
+            if (executing.has(result.nodeId) || seeded.has(result.nodeId)) continue;
+
+            seeded.add(result.nodeId);
+            this.outputs.set(result.nodeId, fromStoredOutput(result.output));
         }
     }
 
     /**
-     * Execute a single node
+     * Under SKIP_DEPENDENTS, explain why a node can't run if any node
+     * feeding it failed or was itself skipped in this run
+     */
+    private getFailedDependency(nodeId: string): string | null {
+        for (const edge of this.edges) {
+            if (edge.target !== nodeId) continue;
+
+            const upstream = this.results.find(r => r.nodeId === edge.source);
+            if (upstream && upstream.status !== 'SUCCESS') {
+                return `Skipped because upstream node ${edge.source} ${upstream.status === 'FAILED' ? 'failed' : 'was skipped'}`;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Record a node that was not executed because of the run's failure policy
+     */
+    private async skipNode(
+        node: Node<WorkflowNodeData>,
+        runId: string,
+        reason: string
+    ): Promise<NodeExecutionResult> {
+        await prisma.nodeResult.create({
+            data: {
+                runId,
+                nodeId: node.id,
+                nodeType: node.type || 'unknown',
+                status: 'SKIPPED',
+                error: reason,
+                startedAt: new Date(),
+                completedAt: new Date(),
+                duration: 0,
+            },
+        });
+
+        return {
+            nodeId: node.id,
+            status: 'SKIPPED',
+            error: reason,
+            duration: 0,
+        };
+    }
+
+    /**
+     * Execute a single node through its registered executor,
+     * reusing a cached output when useCache is set and the key matches
      */
     private async executeNode(
         node: Node<WorkflowNodeData>,
-        runId: string
-    ): Promise<ExecutionResult> {
+        runId: string,
+        signal: AbortSignal,
+        useCache: boolean,
+        emit: (event: ExecutionEvent) => void
+    ): Promise<NodeExecutionResult> {
         const startTime = Date.now();
-        const nodeType = node.type as NodeType;
 
         // Create node result record
         const nodeResult = await prisma.nodeResult.create({
             data: {
                 runId,
                 nodeId: node.id,
-                nodeType,
+                nodeType: node.type || 'unknown',
                 status: 'RUNNING',
                 startedAt: new Date(),
             },
         });
+        const attempts: NodeAttempt[] = [];
+        const items: NodeItemResult[] = [];
+        const usage = new UsageMeter();
+        const partialOutput = new PartialOutputWriter(async (text) => {
+            await prisma.nodeResult.update({
+                where: { id: nodeResult.id },
+                data: { partialOutput: text },
+            });
+            emit({ type: 'node-output', nodeId: node.id, text });
+        });
 
         try {
-            // Build inputs from execution results (prioritize runtime data over static data)
-            const inputs: Record<string, unknown> = {};
-
-            console.log(`[Executor] Executing node: ${node.id} (${nodeType})`);
-
-            // Find all incoming edges
-            const incomingEdges = this.edges.filter(e => e.target === node.id);
-
-            for (const edge of incomingEdges) {
-                if (!edge.targetHandle) continue;
-
-                // First, try to get output from already-executed nodes (runtime results)
-                const sourceResult = this.results.get(edge.source);
-
-                if (sourceResult?.output !== undefined) {
-                    // Use execution result
-                    console.log(`[Executor] Input from executed node ${edge.source} -> ${edge.targetHandle}:`,
-                        typeof sourceResult.output === 'string' && sourceResult.output.startsWith('data:')
-                            ? `${sourceResult.output.substring(0, 50)}... (base64 data)`
-                            : sourceResult.output
-                    );
+            const executor = getNodeExecutor(node);
+            const inputs = resolveNodeInputs(node, this.edges, this.outputs);
+            // Set when a list is wired in; each item is validated as it runs
+            const itemInputs = resolveItemInputs(node, this.edges, this.outputs);
+
+            console.log(`[Executor] Node ${node.id} (${node.type}) inputs:`, JSON.stringify(inputs, null, 2));
+
+            if (!itemInputs) executor.validate?.(node, inputs);
+
+            const cacheKey = executor.cacheFields
+                ? computeCacheKey(node.type || 'unknown', executor.cacheFields(node), inputs)
+                : null;
+            const cached = cacheKey && useCache ? await findCachedResult(cacheKey, this.userId) : null;
+
+            if (cached) {
+                const output = fromStoredOutput(cached.output);
+                this.outputs.set(node.id, output);
+                const duration = Date.now() - startTime;
+                const messages = itemInputs ? undefined : executor.conversation?.(node, inputs, output) ?? undefined;
+                const cachedItems = (cached.items as NodeItemResult[] | null) ?? undefined;
+
+                await prisma.nodeResult.update({
+                    where: { id: nodeResult.id },
+                    data: {
+                        status: 'SUCCESS',
+                        input: inputs as object,
+                        output: toStoredOutput(output),
+                        messages: messages as object[] | undefined,
+                        items: cachedItems as object[] | undefined,
+                        cacheKey,
+                        cacheHit: true,
+                        completedAt: new Date(),
+                        duration,
+                    },
+                });
 
-                    if (edge.targetHandle === 'images') {
-                        // Handle multiple images
-                        const currentImages = (inputs['images'] as string[]) || [];
-                        if (typeof sourceResult.output === 'string') {
-                            currentImages.push(sourceResult.output);
-                        }
-                        inputs['images'] = currentImages;
-                    } else {
-                        inputs[edge.targetHandle] = sourceResult.output;
-                    }
-                } else {
-                    // Fallback to static node data if not executed yet
-                    const sourceNode = this.nodes.find(n => n.id === edge.source);
-                    if (sourceNode?.data.output !== undefined) {
-                        console.log(`[Executor] Input from static data ${edge.source} -> ${edge.targetHandle}:`, sourceNode.data.output);
-
-                        if (edge.targetHandle === 'images') {
-                            const currentImages = (inputs['images'] as string[]) || [];
-                            if (typeof sourceNode.data.output === 'string') {
-                                currentImages.push(sourceNode.data.output);
-                            }
-                            inputs['images'] = currentImages;
-                        } else {
-                            inputs[edge.targetHandle] = sourceNode.data.output;
-                        }
-                    }
-                }
+                return {
+                    nodeId: node.id,
+                    status: 'SUCCESS',
+                    output,
+                    duration,
+                    cacheHit: true,
+                    messages,
+                    items: cachedItems,
+                };
             }
 
-            console.log(`[Executor] Final inputs for ${node.id}:`, inputs);
-
-            // Execute based on node type
-            let output: unknown;
-
-            switch (nodeType) {
-                case 'text':
-                    output = await this.executeTextNode(node);
-                    break;
-                case 'uploadImage':
-                    output = await this.executeUploadImageNode(node);
-                    break;
-                case 'uploadVideo':
-                    output = await this.executeUploadVideoNode(node);
-                    break;
-                case 'llm':
-                    output = await this.executeLLMNode(node, inputs, runId);
-                    break;
-                case 'cropImage':
-                    output = await this.executeCropImageNode(node, inputs, runId);
-                    break;
-                case 'extractFrame':
-                    output = await this.executeExtractFrameNode(node, inputs, runId);
-                    break;
-                default:
-                    throw new Error(`Unknown node type: ${nodeType}`);
-            }
+            const output = itemInputs
+                ? await this.runItems(node, executor, itemInputs, runId, nodeResult.id, signal, items, usage)
+                : await this.runWithRetries(
+                    node, executor, inputs, runId, nodeResult.id, signal, attempts, usage, partialOutput
+                );
+            if (signal.aborted) throw new RunCancelledError();
+            await partialOutput.close();
 
+            this.outputs.set(node.id, output);
             const duration = Date.now() - startTime;
-
-            console.log(`[Executor] Node ${node.id} completed in ${duration}ms with output:`,
-                typeof output === 'string' && output.startsWith('data:')
-                    ? `${output.substring(0, 50)}... (base64 data)`
-                    : output
-            );
+            const messages = itemInputs ? undefined : executor.conversation?.(node, inputs, output) ?? undefined;
 
             // Update node result
             await prisma.nodeResult.update({
@@ -270,184 +418,293 @@ export class WorkflowExecutor {
                 data: {
                     status: 'SUCCESS',
                     input: inputs as object,
-                    output: output as object,
+                    output: toStoredOutput(output),
+                    partialOutput: null,
+                    messages: messages as object[] | undefined,
+                    items: itemInputs ? items as object[] : undefined,
+                    cacheKey,
+                    attempts: attempts as object[],
+                    ...usageColumns(usage.total),
                     completedAt: new Date(),
                     duration,
                 },
             });
+            await this.addRunUsage(runId, usage.total);
 
             return {
                 nodeId: node.id,
                 status: 'SUCCESS',
                 output,
                 duration,
+                usage: usage.total ?? undefined,
+                messages,
+                items: itemInputs ? items : undefined,
             };
         } catch (error) {
             const duration = Date.now() - startTime;
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            await partialOutput.close();
 
+            // Streamed text stays behind for a look at how far the node got
             await prisma.nodeResult.update({
                 where: { id: nodeResult.id },
                 data: {
                     status: 'FAILED',
                     error: errorMessage,
+                    // Written even when empty, over attempts a retrying list item left here
+                    attempts: attempts as object[],
+                    items: items.length > 0 ? items as object[] : undefined,
+                    ...usageColumns(usage.total),
                     completedAt: new Date(),
                     duration,
                 },
             });
+            // Usage reported by failed attempts (rejected JSON answers included)
+            // counts too. A request aborted by a timeout or cancellation reports
+            // none, so its tokens are missing from these totals.
+            await this.addRunUsage(runId, usage.total);
 
             return {
                 nodeId: node.id,
                 status: 'FAILED',
                 error: errorMessage,
                 duration,
+                usage: usage.total ?? undefined,
+                items: items.length > 0 ? items : undefined,
             };
         }
     }
 
     /**
-     * Execute text node - just returns the text value
+     * Run a node once per item of its list inputs, at most maxItemParallel at
+     * a time, recording every item in `items`. Resolves to the item outputs in
+     * order; fails once all items have settled if any of them failed.
      */
-    private async executeTextNode(node: Node<WorkflowNodeData>): Promise<string> {
-        const data = node.data as { text?: string };
-        return data.text || '';
-    }
+    private async runItems(
+        node: Node<WorkflowNodeData>,
+        executor: NodeExecutor,
+        itemInputs: Record<string, unknown>[],
+        runId: string,
+        nodeResultId: string,
+        signal: AbortSignal,
+        items: NodeItemResult[],
+        usage: UsageMeter
+    ): Promise<unknown[]> {
+        const semaphore = this.limiter.forItems();
+
+        await Promise.all(itemInputs.map((input, index) => semaphore.run(async () => {
+            if (signal.aborted) throw new RunCancelledError();
+
+            const startTime = Date.now();
+            const attempts: NodeAttempt[] = [];
+            try {
+                executor.validate?.(node, input);
+                // Items don't stream; their text arrives with each item's result
+                const output = await this.runWithRetries(
+                    node, executor, input, runId, nodeResultId, signal, attempts, usage, null
+                );
+                items[index] = { index, status: 'SUCCESS', input, output, duration: Date.now() - startTime, attempts };
+            } catch (error) {
+                if (error instanceof RunCancelledError) throw error;
+                items[index] = {
+                    index,
+                    status: 'FAILED',
+                    input,
+                    error: error instanceof Error ? error.message : 'Unknown error',
+                    duration: Date.now() - startTime,
+                    attempts,
+                };
+            }
+        })));
 
-    /**
-     * Execute upload image node - returns the image URL
-     */
-    private async executeUploadImageNode(node: Node<WorkflowNodeData>): Promise<string> {
-        const data = node.data as { imageUrl?: string };
-        if (!data.imageUrl) {
-            throw new Error('No image uploaded');
+        const failed = items.filter(item => item.status === 'FAILED');
+        if (failed.length > 0) {
+            throw new Error(`${failed.length} of ${items.length} items failed; item ${failed[0].index + 1}: ${failed[0].error}`);
         }
-        return data.imageUrl;
+        return items.map(item => item.output);
     }
 
     /**
-     * Execute upload video node - returns the video URL
+     * Add a node's LLM usage to its run's totals
      */
-    private async executeUploadVideoNode(node: Node<WorkflowNodeData>): Promise<string> {
-        const data = node.data as { videoUrl?: string };
-        if (!data.videoUrl) {
-            throw new Error('No video uploaded');
-        }
-        return data.videoUrl;
+    private async addRunUsage(runId: string, usage: NodeUsage | null): Promise<void> {
+        if (!usage) return;
+
+        await prisma.workflowRun.update({
+            where: { id: runId },
+            data: {
+                promptTokens: { increment: usage.promptTokens },
+                completionTokens: { increment: usage.completionTokens },
+                cost: { increment: usage.cost ?? 0 },
+            },
+        });
     }
 
     /**
-     * Execute LLM node via Trigger.dev task
+     * Run a node's executor under its retry policy: every attempt gets its own
+     * timeout, failures are retried with backoff and each attempt is recorded.
+     * Rate-limited attempts wait for the provider's hint without using up a retry.
      */
-    private async executeLLMNode(
+    private async runWithRetries(
         node: Node<WorkflowNodeData>,
+        executor: NodeExecutor,
         inputs: Record<string, unknown>,
-        runId: string
-    ): Promise<string> {
-        const data = node.data as {
-            model?: string;
-            systemPrompt?: string;
-            userMessage?: string;
-        };
-
-        const prompt = [
-            data.systemPrompt ? `System: ${data.systemPrompt}` : '',
-            (inputs['system_prompt'] as string) || '',
-            (inputs['user_message'] as string) || data.userMessage || '',
-        ].filter(Boolean).join('\n\n');
+        runId: string,
+        nodeResultId: string,
+        signal: AbortSignal,
+        attempts: NodeAttempt[],
+        usage: UsageMeter,
+        partialOutput: PartialOutputWriter | null
+    ): Promise<unknown> {
+        const policy = getRetryPolicy(node.data);
+        const provider = executor.provider?.(node) ?? null;
+        let retriesUsed = 0;
+        let rateLimitWaits = 0;
+
+        for (let attempt = 1; ; attempt++) {
+            let startedAt = new Date();
+
+            try {
+                const output = await this.limiter.forProvider(provider, () => {
+                    // Time spent queued for the provider doesn't count towards the attempt
+                    startedAt = new Date();
+                    return this.runAttempt(
+                        node, executor, inputs, runId, nodeResultId, signal, policy.timeoutMs, usage, partialOutput
+                    );
+                });
 
-        const payload = {
-            prompt,
-            model: data.model || 'gemini-2.0-flash',
-            images: (inputs['images'] as string[]) || [],
-        };
+                attempts.push({ attempt, startedAt: startedAt.toISOString(), duration: Date.now() - startedAt.getTime() });
+                return output;
+            } catch (error) {
+                attempts.push({
+                    attempt,
+                    startedAt: startedAt.toISOString(),
+                    duration: Date.now() - startedAt.getTime(),
+                    error: error instanceof Error ? error.message : 'Unknown error',
+                });
 
-        if (!prompt) {
-            throw new Error('User message is required');
-        }
+                if (error instanceof RunCancelledError) throw error;
 
-        // Trigger the task and wait for result
-        const result = await tasks.triggerAndWait<typeof llmTask>("llm-execution", payload);
+                let delay: number;
+                if (error instanceof RateLimitError && rateLimitWaits < MAX_RATE_LIMIT_WAITS) {
+                    rateLimitWaits++;
+                    delay = error.retryAfterMs ?? getBackoffDelay(policy.backoff, rateLimitWaits);
+                } else if (retriesUsed < policy.retries) {
+                    retriesUsed++;
+                    delay = getBackoffDelay(policy.backoff, retriesUsed);
+                } else {
+                    throw error;
+                }
 
-        if (!result.ok) {
-            throw new Error('LLM execution failed');
+                console.warn(`[Executor] Node ${node.id} attempt ${attempt} failed, retrying in ${delay}ms:`, error);
+                await prisma.nodeResult.update({
+                    where: { id: nodeResultId },
+                    data: { attempts: attempts as object[] },
+                });
+                await sleep(delay, signal);
+            }
         }
-
-        return result.output.text;
     }
 
     /**
-     * Execute crop image node via Trigger.dev task
+     * One execution attempt, aborted when the run is cancelled or timeoutMs passes
      */
-    private async executeCropImageNode(
+    private async runAttempt(
         node: Node<WorkflowNodeData>,
+        executor: NodeExecutor,
         inputs: Record<string, unknown>,
-        runId: string
-    ): Promise<string> {
-        const data = node.data as {
-            sourceWidth?: number;
-            sourceHeight?: number;
-            outputWidth?: number;
-            outputHeight?: number;
-        };
-
-        const imageUrl = (inputs['image_url'] as string) || '';
-        if (!imageUrl) {
-            throw new Error('Image URL is required');
-        }
-
-        // Compute actual pixel crop coordinates
-        const sourceW = data.sourceWidth || 1024;
-        const sourceH = data.sourceHeight || 1024;
-        const cropW = data.outputWidth || sourceW;
-        const cropH = data.outputHeight || sourceH;
-        const x = Math.max(0, Math.round((sourceW - cropW) / 2));
-        const y = Math.max(0, Math.round((sourceH - cropH) / 2));
-
-        const payload = {
-            imageUrl,
-            x,
-            y,
-            width: Math.min(cropW, sourceW),
-            height: Math.min(cropH, sourceH),
-        };
-
-        const handle = await tasks.trigger<typeof cropImageTask>("crop-image", payload);
-        const completed = await runs.poll(handle.id, { pollIntervalMs: 500 });
+        runId: string,
+        nodeResultId: string,
+        signal: AbortSignal,
+        timeoutMs: number,
+        usage: UsageMeter,
+        partialOutput: PartialOutputWriter | null
+    ): Promise<unknown> {
+        const attemptController = new AbortController();
+        const onRunAbort = () => attemptController.abort(new RunCancelledError());
+        if (signal.aborted) onRunAbort();
+        else signal.addEventListener('abort', onRunAbort, { once: true });
+        const timer = setTimeout(() => attemptController.abort(new NodeTimeoutError(timeoutMs)), timeoutMs);
 
-        if (completed.status !== 'COMPLETED') {
-            throw new Error(`Crop image failed with status: ${completed.status}`);
+        try {
+            return await Promise.race([
+                executor.run(node, inputs, {
+                    runId,
+                    workflowId: this.workflowId,
+                    userId: this.userId,
+                    signal: attemptController.signal,
+                    timeoutMs,
+                    onTriggerRun: async (triggerRunId) => {
+                        await prisma.nodeResult.update({
+                            where: { id: nodeResultId },
+                            data: { triggerRunId },
+                        });
+                    },
+                    onUsage: (reported) => usage.add(reported),
+                    onPartialOutput: (text) => partialOutput?.write(text),
+                }),
+                rejectOnAbort(attemptController.signal),
+            ]);
+        } catch (error) {
+            // Executors report any abort as a cancellation, so prefer the abort reason
+            throw attemptController.signal.aborted ? attemptController.signal.reason : error;
+        } finally {
+            clearTimeout(timer);
+            signal.removeEventListener('abort', onRunAbort);
         }
-
-        return (completed.output as any).imageUrl;
     }
+}
 
-    /**
-     * Execute extract frame node via Trigger.dev task
-     */
-    private async executeExtractFrameNode(
-        node: Node<WorkflowNodeData>,
-        inputs: Record<string, unknown>,
-        runId: string
-    ): Promise<string> {
-        const data = node.data as { timestamp?: string };
+/**
+ * Resolve the nodes a run should execute.
+ * SINGLE runs also execute everything upstream of the selected nodes,
+ * so processing nodes (crop, extract frame) run before the target.
+ * FROM_NODE runs execute the selected nodes and everything downstream.
+ */
+export function selectNodesInScope(
+    nodes: Node<WorkflowNodeData>[],
+    edges: Edge[],
+    scope: ExecutionScope,
+    nodeIds?: string[]
+): Node<WorkflowNodeData>[] {
+    if (scope === 'FULL' || !nodeIds || nodeIds.length === 0) {
+        return nodes;
+    }
 
-        const videoUrl = inputs['video_url'] as string;
-        if (!videoUrl) {
-            throw new Error('Video URL is required');
-        }
+    const selected = new Set(nodeIds);
+    if (scope === 'SINGLE') {
+        nodeIds.forEach(id => {
+            getUpstreamNodes(id, edges).forEach(upstreamId => selected.add(upstreamId));
+        });
+    } else if (scope === 'FROM_NODE') {
+        nodeIds.forEach(id => {
+            getDownstreamNodes(id, edges).forEach(downstreamId => selected.add(downstreamId));
+        });
+    }
 
-        const payload = {
-            videoUrl,
-            timestamp: parseFloat((inputs['timestamp'] as string) ?? data.timestamp ?? '0'),
-        };
+    return nodes.filter(n => selected.has(n.id));
+}
 
-        const handle = await tasks.trigger<typeof extractFrameTask>("extract-frame", payload);
-        const completed = await runs.poll(handle.id, { pollIntervalMs: 500 });
+// NodeResult usage columns; left empty for nodes that made no LLM requests
+function usageColumns(usage: NodeUsage | null) {
+    return usage
+        ? { model: usage.model, promptTokens: usage.promptTokens, completionTokens: usage.completionTokens, cost: usage.cost }
+        : {};
+}
 
-        if (completed.status !== 'COMPLETED') {
-            throw new Error(`Extract frame failed with status: ${completed.status}`);
-        }
+function rejectOnAbort(signal: AbortSignal): Promise<never> {
+    return new Promise((_, reject) => {
+        if (signal.aborted) reject(signal.reason);
+        else signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+    });
+}
 
-        return (completed.output as any).frameUrl;
-    }
+/**
+ * SUCCESS when every node succeeded, PARTIAL when some did,
+ * FAILED when nothing succeeded at all
+ */
+function deriveRunStatus(results: NodeExecutionResult[]): RunStatus {
+    if (results.every(r => r.status === 'SUCCESS')) return 'SUCCESS';
+    if (results.some(r => r.status === 'SUCCESS')) return 'PARTIAL';
+    return 'FAILED';
 }
@@ -0,0 +1,133 @@
+import { Node } from '@xyflow/react';
+import type { cropImageTask } from '@/trigger';
+import { CropImageNodeData } from '@/types/nodes';
+import { NodeExecutor } from './types';
+import { shouldSkipTriggerDev, getBaseUrl, probeImageDimensions, runTriggerTask } from './shared';
+import { RunCancelledError } from '../cancellation';
+import { RateLimitError, parseRetryAfter } from '../concurrency';
+
+interface CropBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export const cropImageExecutor: NodeExecutor<CropImageNodeData> = {
+    provider: () => 'transloadit',
+
+    cacheFields: (node) => ({
+        xPercent: node.data.xPercent,
+        yPercent: node.data.yPercent,
+        widthPercent: node.data.widthPercent,
+        heightPercent: node.data.heightPercent,
+        sourceWidth: node.data.sourceWidth,
+        sourceHeight: node.data.sourceHeight,
+    }),
+
+    validate: (_node, inputs) => {
+        if (!inputs['image_url']) {
+            throw new Error('Image URL is required');
+        }
+    },
+
+    run: async (node, inputs, context) => {
+        const imageUrl = inputs['image_url'] as string;
+
+        // Transloadit cannot access browser-only blob: URLs, so the crop
+        // can't happen server-side — pass the original through unchanged
+        if (imageUrl.startsWith('blob:')) {
+            console.warn('[Crop] blob: URL detected, returning original');
+            return imageUrl;
+        }
+
+        const box = await computeCropBox(node, inputs, imageUrl);
+
+        if (shouldSkipTriggerDev()) {
+            return executeCropImage(imageUrl, box);
+        }
+
+        try {
+            const output = await runTriggerTask<typeof cropImageTask>('crop-image', {
+                imageUrl,
+                ...box,
+                timeoutMs: context.timeoutMs,
+            }, context);
+            return output.imageUrl || '';
+        } catch (error) {
+            if (error instanceof RunCancelledError) throw error;
+
+            console.warn('Trigger.dev unavailable, falling back to direct execution:', error);
+            return executeCropImage(imageUrl, box);
+        }
+    },
+};
+
+/**
+ * Convert the node's percentage crop (connected inputs override node data)
+ * into a pixel box clamped to the source image
+ */
+async function computeCropBox(
+    node: Node<CropImageNodeData>,
+    inputs: Record<string, unknown>,
+    imageUrl: string
+): Promise<CropBox> {
+    const xPercent = Number(inputs['x_percent'] ?? node.data.xPercent ?? 0);
+    const yPercent = Number(inputs['y_percent'] ?? node.data.yPercent ?? 0);
+    const widthPercent = Number(inputs['width_percent'] ?? node.data.widthPercent ?? 100);
+    const heightPercent = Number(inputs['height_percent'] ?? node.data.heightPercent ?? 100);
+
+    // Read actual image dimensions — first try node data, then dynamically probe the image
+    let sourceW = node.data.sourceWidth || 0;
+    let sourceH = node.data.sourceHeight || 0;
+
+    if (!sourceW || !sourceH) {
+        console.log('[Crop] sourceWidth/sourceHeight not in node data — probing image dynamically…');
+        const probed = await probeImageDimensions(imageUrl);
+        if (probed) {
+            sourceW = probed.width;
+            sourceH = probed.height;
+        } else {
+            throw new Error('Unable to determine image dimensions for crop. The image URL may be inaccessible.');
+        }
+    }
+
+    const x = Math.min(Math.max(0, Math.round((xPercent / 100) * sourceW)), sourceW - 1);
+    const y = Math.min(Math.max(0, Math.round((yPercent / 100) * sourceH)), sourceH - 1);
+    const width = Math.min(Math.max(1, Math.round((widthPercent / 100) * sourceW)), sourceW - x);
+    const height = Math.min(Math.max(1, Math.round((heightPercent / 100) * sourceH)), sourceH - y);
+
+    console.log('[Crop] Crop params (%):', { xPercent, yPercent, widthPercent, heightPercent });
+    console.log(`[Crop] Source: ${sourceW}x${sourceH} → pixels: x=${x}, y=${y}, w=${width}, h=${height}`);
+
+    return { x, y, width, height };
+}
+
+// Crop image execution using Transloadit (fallback when Trigger.dev is unavailable)
+async function executeCropImage(imageUrl: string, box: CropBox): Promise<string> {
+    const baseUrl = getBaseUrl();
+    console.log('[executeCropImage] Calling /api/process at', baseUrl);
+
+    const response = await fetch(`${baseUrl}/api/process`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            type: 'crop',
+            fileUrl: imageUrl,
+            ...box,
+        }),
+    });
+
+    if (response.status === 429) {
+        throw new RateLimitError('transloadit', parseRetryAfter(response.headers.get('retry-after')));
+    }
+    if (!response.ok) {
+        const error = await response.json();
+        console.error('[executeCropImage] Crop failed:', error);
+        throw new Error(`Crop failed: ${error.error || response.statusText}`);
+    }
+
+    const result = await response.json();
+    console.log('[executeCropImage] Crop successful, result URL:', result.resultUrl?.substring(0, 80));
+    return result.resultUrl;
+}
@@ -0,0 +1,94 @@
+import { Node } from '@xyflow/react';
+import type { extractFrameTask } from '@/trigger';
+import { ExtractFrameNodeData } from '@/types/nodes';
+import { NodeExecutor } from './types';
+import { shouldSkipTriggerDev, getBaseUrl, parseTimestamp, runTriggerTask } from './shared';
+import { RunCancelledError } from '../cancellation';
+import { RateLimitError, parseRetryAfter } from '../concurrency';
+
+export const extractFrameExecutor: NodeExecutor<ExtractFrameNodeData> = {
+    provider: () => 'transloadit',
+
+    cacheFields: (node) => ({
+        timestamp: node.data.timestamp,
+        videoDuration: node.data.videoDuration,
+    }),
+
+    validate: (_node, inputs) => {
+        const videoUrl = inputs['video_url'] as string | undefined;
+        if (!videoUrl) {
+            throw new Error('Video URL is required');
+        }
+
+        // Guard against blob: URLs which cannot be accessed by the server
+        if (videoUrl.startsWith('blob:')) {
+            throw new Error('Video upload incomplete: The video URL is a local blob. Please re-upload the video before running the workflow.');
+        }
+    },
+
+    run: async (node, inputs, context) => {
+        const videoUrl = inputs['video_url'] as string;
+        const timestamp = resolveTimestamp(node, inputs);
+
+        // A percentage with no known duration can only be handled by the
+        // count-based extraction in /api/process, so skip Trigger.dev
+        if (shouldSkipTriggerDev() || 'percent' in timestamp) {
+            return executeExtractFrame(videoUrl, timestamp);
+        }
+
+        try {
+            const output = await runTriggerTask<typeof extractFrameTask>('extract-frame', {
+                videoUrl,
+                timestamp: timestamp.seconds,
+                timeoutMs: context.timeoutMs,
+            }, context);
+            return output.frameUrl || '';
+        } catch (error) {
+            if (error instanceof RunCancelledError) throw error;
+
+            console.warn('Trigger.dev unavailable, falling back to direct execution:', error);
+            return executeExtractFrame(videoUrl, timestamp);
+        }
+    },
+};
+
+function resolveTimestamp(node: Node<ExtractFrameNodeData>, inputs: Record<string, unknown>) {
+    const timestampStr = String(inputs['timestamp'] ?? node.data.timestamp ?? '0');
+    const timestamp = parseTimestamp(timestampStr, node.data.videoDuration);
+    console.log(`[Frame] timestamp ${timestampStr} →`, timestamp);
+    return timestamp;
+}
+
+// Extract frame execution using Transloadit (fallback when Trigger.dev is unavailable)
+async function executeExtractFrame(
+    videoUrl: string,
+    timestamp: { seconds: number } | { percent: number }
+): Promise<string> {
+    // Build the request body — either seconds-based or percentage-based
+    const body: Record<string, unknown> = {
+        type: 'frame',
+        fileUrl: videoUrl,
+    };
+    if ('percent' in timestamp) {
+        body.timestampPercent = timestamp.percent; // e.g. 50 → process route uses count-based approach
+    } else {
+        body.timestamp = timestamp.seconds;
+    }
+
+    const response = await fetch(`${getBaseUrl()}/api/process`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+
+    if (response.status === 429) {
+        throw new RateLimitError('transloadit', parseRetryAfter(response.headers.get('retry-after')));
+    }
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(`Frame extraction failed: ${error.error || response.statusText}`);
+    }
+
+    const result = await response.json();
+    return result.resultUrl;
+}
@@ -0,0 +1,141 @@
+import { Node, Edge } from '@xyflow/react';
+import { HandleConfig, NodeType, NODE_CONFIG, WorkflowNodeData } from '@/types/nodes';
+import { JSON_FIELD_HANDLE_PREFIX, getJsonField } from '@/lib/llm/json-output';
+import { getInputHandle } from '../validation';
+import { ConnectedInput, NodeExecutor } from './types';
+import { textExecutor } from './text';
+import { uploadImageExecutor, uploadVideoExecutor } from './upload';
+import { llmExecutor } from './llm';
+import { cropImageExecutor } from './crop-image';
+import { extractFrameExecutor } from './extract-frame';
+
+export type { ConnectedInput, NodeExecutionContext, NodeExecutor } from './types';
+
+// One executor per node type — adding a node type means registering it here
+export const NODE_EXECUTORS: Record<NodeType, NodeExecutor> = {
+    text: textExecutor as NodeExecutor,
+    uploadImage: uploadImageExecutor as NodeExecutor,
+    uploadVideo: uploadVideoExecutor as NodeExecutor,
+    llm: llmExecutor as NodeExecutor,
+    cropImage: cropImageExecutor as NodeExecutor,
+    extractFrame: extractFrameExecutor as NodeExecutor,
+};
+
+/**
+ * Look up the executor for a node, failing loudly for unknown types
+ */
+export function getNodeExecutor(node: Node<WorkflowNodeData>): NodeExecutor {
+    const executor = NODE_EXECUTORS[node.type as NodeType];
+    if (!executor) {
+        throw new Error(`Unknown node type: ${node.type}`);
+    }
+    return executor;
+}
+
+/**
+ * Build a node's input record from the outputs of the nodes wired into it
+ */
+export function resolveNodeInputs(
+    node: Node<WorkflowNodeData>,
+    edges: Edge[],
+    outputs: Map<string, unknown>
+): Record<string, unknown> {
+    return toInputRecord(node, getConnectedInputs(node, edges, outputs));
+}
+
+/**
+ * One input record per item when list outputs (arrays) are wired into the
+ * node, which then runs once per item. Lists are paired up by index and every
+ * other connection passes its whole value to each item. Null when nothing
+ * connected is a list.
+ */
+export function resolveItemInputs(
+    node: Node<WorkflowNodeData>,
+    edges: Edge[],
+    outputs: Map<string, unknown>
+): Record<string, unknown>[] | null {
+    const connected = getConnectedInputs(node, edges, outputs);
+    const lengths = new Set(connected.filter(c => Array.isArray(c.value)).map(c => (c.value as unknown[]).length));
+    if (lengths.size === 0) return null;
+    if (lengths.size > 1) {
+        throw new Error(`Connected lists differ in length (${[...lengths].join(', ')} items)`);
+    }
+
+    const [count] = lengths;
+    return Array.from({ length: count }, (_, index) => toInputRecord(node, connected.map(c =>
+        Array.isArray(c.value) ? { ...c, value: c.value[index] } : c
+    )));
+}
+
+function getConnectedInputs(
+    node: Node<WorkflowNodeData>,
+    edges: Edge[],
+    outputs: Map<string, unknown>
+): ConnectedInput[] {
+    const connected: ConnectedInput[] = [];
+
+    edges.forEach(edge => {
+        if (edge.target !== node.id || !edge.targetHandle) return;
+
+        const output = outputs.get(edge.source);
+        // JSON field handles carry one field of the source's JSON output (of
+        // each item's output when the source ran over a list)
+        const fieldHandle = edge.sourceHandle?.startsWith(JSON_FIELD_HANDLE_PREFIX) ? edge.sourceHandle : null;
+        const value = !fieldHandle
+            ? output
+            : Array.isArray(output)
+                ? output.map(item => getJsonField(item, fieldHandle))
+                : getJsonField(output, fieldHandle);
+        if (value === undefined) return;
+
+        connected.push({ handle: edge.targetHandle, sourceId: edge.source, value });
+    });
+    return connected;
+}
+
+function toInputRecord(node: Node<WorkflowNodeData>, connected: ConnectedInput[]): Record<string, unknown> {
+    const executor = getNodeExecutor(node);
+    if (executor.resolveInputs) {
+        return executor.resolveInputs(connected, node);
+    }
+
+    // Default: one value per handle, last connection wins — except variadic
+    // inputs, which collect every connected value into an ordered list
+    const inputs: Record<string, unknown> = {};
+    connected.forEach(({ handle, value }) => {
+        if (getInputHandle(node, handle)?.variadic) return;
+        inputs[handle] = value;
+    });
+
+    NODE_CONFIG[node.type as NodeType].inputs.forEach(input => {
+        if (!input.variadic) return;
+
+        const values = gatherVariadicInput(node, input, connected);
+        if (values.length > 0) inputs[input.id] = values;
+    });
+    return inputs;
+}
+
+/**
+ * Values wired into a variadic input: its own handle first (in connection
+ * order), then the node's added handles in the order the node lists them
+ */
+function gatherVariadicInput(
+    node: Node<WorkflowNodeData>,
+    input: HandleConfig,
+    connected: ConnectedInput[]
+): unknown[] {
+    const { prefix, handlesField } = input.variadic!;
+    const listed = node.data[handlesField];
+    const added = Array.isArray(listed) ? listed.filter((id): id is string => typeof id === 'string') : [];
+
+    // Connections to handles the node no longer lists still count, after the rest
+    const unlisted = connected
+        .map(c => c.handle)
+        .filter(handle => handle.startsWith(prefix) && !added.includes(handle))
+        .sort();
+
+    return [input.id, ...added, ...new Set(unlisted)].flatMap(handle =>
+        connected.filter(c => c.handle === handle).map(c => c.value)
+    );
+}
@@ -0,0 +1,126 @@
+import { Node } from '@xyflow/react';
+import type { llmTask } from '@/trigger';
+import { DEFAULT_LLM_MODEL, LLMMessage, LLMOutputError, LLMRequest, LLMResult, LLMUsage, assertVisionSupport, generateText, parseJsonSchema, resolveModel } from '@/lib/llm';
+import { ChatMessage, LLMNodeData } from '@/types/nodes';
+import { NodeExecutionContext, NodeExecutor } from './types';
+import { shouldSkipTriggerDev, runTriggerTask } from './shared';
+import { RunCancelledError } from '../cancellation';
+
+export const llmExecutor: NodeExecutor<LLMNodeData> = {
+    // Images wired into the `images` handle and the added image_<id> handles
+    // arrive in handle order as inputs['images'] (`images` is variadic in NODE_CONFIG)
+    cacheFields: (node) => ({
+        model: node.data.model || DEFAULT_LLM_MODEL,
+        systemPrompt: node.data.systemPrompt,
+        userMessage: node.data.userMessage,
+        temperature: node.data.temperature,
+        maxTokens: node.data.maxTokens,
+        topP: node.data.topP,
+        stopSequences: node.data.stopSequences,
+        thinking: node.data.thinking,
+        outputMode: node.data.outputMode,
+        jsonSchema: node.data.outputMode === 'json' ? node.data.jsonSchema : undefined,
+        chatMode: node.data.chatMode,
+        // The turns being answered, so re-running a finished conversation reuses its reply
+        messages: node.data.chatMode ? getChatHistory(node) : undefined,
+    }),
+
+    provider: (node) => resolveModel(node.data.model || DEFAULT_LLM_MODEL)?.provider.id ?? null,
+
+    validate: (node, inputs) => {
+        if (!getTurns(node, inputs).at(-1)?.content) {
+            throw new Error('User message is required');
+        }
+        assertVisionSupport(buildRequest(node, inputs));
+    },
+
+    run: async (node, inputs, context) => {
+        try {
+            const result = await generate(buildRequest(node, inputs), context);
+            context.onUsage(result.usage);
+            return result.text;
+        } catch (error) {
+            // Rejected answers are billed like accepted ones
+            if (error instanceof LLMOutputError) context.onUsage(error.usage);
+            throw error;
+        }
+    },
+
+    conversation: (node, inputs, output) => node.data.chatMode
+        ? [...getTurns(node, inputs), { role: 'assistant', content: String(output ?? '') }]
+        : null,
+};
+
+// The answer streams into context.onPartialOutput, through the task's run
+// metadata when it runs on Trigger.dev. context.signal aborts the provider
+// request when the attempt times out or the run is cancelled.
+async function generate(request: LLMRequest, context: NodeExecutionContext): Promise<LLMResult> {
+    if (shouldSkipTriggerDev()) {
+        return generateText(request, context.onPartialOutput, context.signal);
+    }
+
+    let failure: { message: string; usage: LLMUsage } | undefined;
+    try {
+        return await runTriggerTask<typeof llmTask>('llm-execution', request, context, (metadata) => {
+            if (typeof metadata.text === 'string') context.onPartialOutput(metadata.text);
+            if (metadata.failure) failure = metadata.failure as typeof failure;
+        });
+    } catch (error) {
+        // A timed-out or cancelled attempt is over; the executor decides whether to retry
+        if (error instanceof RunCancelledError || context.signal.aborted) throw error;
+        // The task ran and the model's answer was rejected; running it here wouldn't help
+        if (failure) throw new LLMOutputError(failure.message, failure.usage);
+
+        // Fallback to direct execution if Trigger.dev is unavailable
+        console.warn('Trigger.dev unavailable, falling back to direct execution:', error);
+        return generateText(request, context.onPartialOutput, context.signal);
+    }
+}
+
+// The node's prompts as role messages plus its sampling and output settings
+function buildRequest(node: Node<LLMNodeData>, inputs: Record<string, unknown>): LLMRequest {
+    const systemPrompt = getSystemPrompt(node, inputs);
+    const messages: LLMMessage[] = [
+        ...(systemPrompt ? [{ role: 'system' as const, content: systemPrompt }] : []),
+        ...getTurns(node, inputs),
+    ];
+
+    return {
+        model: node.data.model || DEFAULT_LLM_MODEL,
+        messages,
+        images: getImages(inputs),
+        temperature: node.data.temperature,
+        maxTokens: node.data.maxTokens,
+        topP: node.data.topP,
+        stop: node.data.stopSequences,
+        thinking: node.data.thinking,
+        jsonSchema: node.data.outputMode === 'json' ? parseJsonSchema(node.data.jsonSchema) : undefined,
+    };
+}
+
+function getUserMessage(node: Node<LLMNodeData>, inputs: Record<string, unknown>): string {
+    return (inputs['user_message'] as string) || node.data.userMessage || '';
+}
+
+// The user and assistant turns sent, ending in the user turn to answer. A
+// conversation opens with the user message; in chat mode follow-ups are
+// appended to `messages` before the node runs.
+function getTurns(node: Node<LLMNodeData>, inputs: Record<string, unknown>): ChatMessage[] {
+    const history = node.data.chatMode ? getChatHistory(node) : [];
+    return history.length > 0 ? history : [{ role: 'user', content: getUserMessage(node, inputs) }];
+}
+
+// A conversation that already ends in a reply has that reply regenerated
+function getChatHistory(node: Node<LLMNodeData>): ChatMessage[] {
+    const messages = node.data.messages ?? [];
+    return messages.at(-1)?.role === 'assistant' ? messages.slice(0, -1) : messages;
+}
+
+function getImages(inputs: Record<string, unknown>): string[] {
+    const images = inputs['images'];
+    return Array.isArray(images) ? images.filter((url): url is string => typeof url === 'string') : [];
+}
+
+function getSystemPrompt(node: Node<LLMNodeData>, inputs: Record<string, unknown>): string {
+    return (inputs['system_prompt'] as string) || node.data.systemPrompt || '';
+}
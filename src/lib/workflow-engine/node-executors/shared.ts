@@ -0,0 +1,227 @@
+import { runs, tasks, type AnyTask, type RunHandle, type TaskIdentifier, type TaskOutput, type TaskPayload } from '@trigger.dev/sdk/v3';
+import { RunCancelledError } from '../cancellation';
+import { getBaseUrl } from '@/lib/hosted-media';
+import { NodeExecutionContext } from './types';
+
+// Only skip Trigger.dev if explicitly disabled via env var
+// When using Trigger.dev in production, tasks must be deployed via:
+//   npx trigger.dev@latest deploy --env production
+export function shouldSkipTriggerDev(): boolean {
+    return process.env.SKIP_TRIGGER_DEV === 'true';
+}
+
+export { getBaseUrl } from '@/lib/hosted-media';
+
+// ────────────────────────────────────────────────────────────────
+// Dynamic image dimension probe (zero dependencies)
+// Fetches the image binary and parses the format header to extract
+// width × height.  Supports PNG, JPEG, WebP (VP8/VP8L/VP8X), GIF, BMP.
+// ────────────────────────────────────────────────────────────────
+export async function probeImageDimensions(
+    url: string
+): Promise<{ width: number; height: number } | null> {
+    try {
+        console.log(`[probeImageDimensions] Fetching ${url.substring(0, 80)}…`);
+        const response = await fetch(url);
+        if (!response.ok) return null;
+        const buffer = Buffer.from(await response.arrayBuffer());
+        if (buffer.length < 30) return null;
+
+        // PNG — 8-byte magic + IHDR chunk at bytes 16..23
+        if (buffer[0] === 0x89 && buffer[1] === 0x50 && buffer[2] === 0x4e && buffer[3] === 0x47) {
+            const w = buffer.readUInt32BE(16);
+            const h = buffer.readUInt32BE(20);
+            console.log(`[probeImageDimensions] PNG ${w}×${h}`);
+            return { width: w, height: h };
+        }
+
+        // GIF — "GIF87a" or "GIF89a"
+        if (buffer[0] === 0x47 && buffer[1] === 0x49 && buffer[2] === 0x46) {
+            const w = buffer.readUInt16LE(6);
+            const h = buffer.readUInt16LE(8);
+            console.log(`[probeImageDimensions] GIF ${w}×${h}`);
+            return { width: w, height: h };
+        }
+
+        // JPEG — scan for SOF0 (0xC0) or SOF2 (0xC2) marker
+        if (buffer[0] === 0xff && buffer[1] === 0xd8) {
+            let offset = 2;
+            while (offset < buffer.length - 9) {
+                if (buffer[offset] !== 0xff) { offset++; continue; }
+                const marker = buffer[offset + 1];
+                if (marker === 0xc0 || marker === 0xc2) {
+                    const h = buffer.readUInt16BE(offset + 5);
+                    const w = buffer.readUInt16BE(offset + 7);
+                    console.log(`[probeImageDimensions] JPEG ${w}×${h}`);
+                    return { width: w, height: h };
+                }
+                // skip segment
+                if (marker === 0xd9) break;               // EOI
+                if (marker >= 0xd0 && marker <= 0xd7) {    // RSTn (no length)
+                    offset += 2; continue;
+                }
+                const segLen = buffer.readUInt16BE(offset + 2);
+                offset += 2 + segLen;
+            }
+        }
+
+        // WebP — RIFF....WEBP container
+        if (buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+            const fourCC = buffer.toString('ascii', 12, 16);
+            if (fourCC === 'VP8 ' && buffer.length >= 30) {
+                const w = buffer.readUInt16LE(26) & 0x3fff;
+                const h = buffer.readUInt16LE(28) & 0x3fff;
+                console.log(`[probeImageDimensions] WebP-VP8 ${w}×${h}`);
+                return { width: w, height: h };
+            }
+            if (fourCC === 'VP8L' && buffer.length >= 25) {
+                const bits = buffer.readUInt32LE(21);
+                const w = (bits & 0x3fff) + 1;
+                const h = ((bits >> 14) & 0x3fff) + 1;
+                console.log(`[probeImageDimensions] WebP-VP8L ${w}×${h}`);
+                return { width: w, height: h };
+            }
+            if (fourCC === 'VP8X' && buffer.length >= 30) {
+                const w = 1 + (buffer[24] | (buffer[25] << 8) | (buffer[26] << 16));
+                const h = 1 + (buffer[27] | (buffer[28] << 8) | (buffer[29] << 16));
+                console.log(`[probeImageDimensions] WebP-VP8X ${w}×${h}`);
+                return { width: w, height: h };
+            }
+        }
+
+        // BMP
+        if (buffer[0] === 0x42 && buffer[1] === 0x4d && buffer.length >= 26) {
+            const w = buffer.readInt32LE(18);
+            const h = Math.abs(buffer.readInt32LE(22));
+            console.log(`[probeImageDimensions] BMP ${w}×${h}`);
+            return { width: w, height: h };
+        }
+
+        console.warn('[probeImageDimensions] Unknown image format');
+        return null;
+    } catch (error) {
+        console.error('[probeImageDimensions] Probe failed:', error);
+        return null;
+    }
+}
+
+// Helper: Poll with a timeout to avoid Vercel serverless function timeouts
+// Defaults to 120s which is safely under Vercel's 300s limit
+// Stops polling (and cancels the Trigger.dev run) as soon as `signal` aborts
+export async function pollWithTimeout<TOutput>(
+    handle: RunHandle<string, unknown, TOutput>,
+    timeoutMs: number = 120000,
+    signal?: AbortSignal
+) {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let onAbort: (() => void) | undefined;
+    try {
+        return await Promise.race([
+            runs.poll(handle, { pollIntervalMs: 1000 }),
+            new Promise<never>((_, reject) => {
+                timer = setTimeout(() => reject(new Error(`Trigger.dev task timed out after ${timeoutMs / 1000}s`)), timeoutMs);
+            }),
+            new Promise<never>((_, reject) => {
+                onAbort = () => {
+                    runs.cancel(handle.id).catch(error => console.warn('[Trigger.dev] Failed to cancel run:', error));
+                    reject(new RunCancelledError());
+                };
+                if (signal?.aborted) onAbort();
+                else signal?.addEventListener('abort', onAbort, { once: true });
+            }),
+        ]);
+    } finally {
+        // The run's signal outlives this node; don't leave the timer or listener behind
+        clearTimeout(timer);
+        if (onAbort) signal?.removeEventListener('abort', onAbort);
+    }
+}
+
+/**
+ * Trigger a Trigger.dev task for a node and wait for its output.
+ * `onMetadata` receives the run's metadata as it changes while the task runs.
+ * Throws RunCancelledError if the workflow run is cancelled meanwhile.
+ */
+export async function runTriggerTask<TTask extends AnyTask>(
+    taskId: TaskIdentifier<TTask>,
+    payload: TaskPayload<TTask>,
+    context: NodeExecutionContext,
+    onMetadata?: (metadata: Record<string, unknown>) => void
+): Promise<TaskOutput<TTask>> {
+    const handle = await tasks.trigger<TTask>(taskId, payload);
+    console.log(`[Trigger.dev] ${taskId} task triggered, run ID:`, handle.id);
+
+    await context.onTriggerRun(handle.id);
+
+    const stopWatching = onMetadata ? watchMetadata(handle.id, onMetadata) : () => {};
+
+    // Poll for result with timeout to prevent Vercel function timeout
+    const completed = await pollWithTimeout(handle, context.timeoutMs, context.signal).finally(stopWatching);
+    // Metadata set just before the task finished may not have been watched yet
+    if (completed.metadata) onMetadata?.(completed.metadata);
+
+    if (completed.status === 'CANCELED') {
+        throw new RunCancelledError();
+    }
+    if (completed.status !== 'COMPLETED') {
+        throw new Error(`${taskId} task failed with status: ${completed.status}`);
+    }
+    return completed.output as TaskOutput<TTask>;
+}
+
+// Poll a run's metadata every second until the returned function is called
+function watchMetadata(runId: string, onMetadata: (metadata: Record<string, unknown>) => void): () => void {
+    let last: string | undefined;
+    const timer = setInterval(async () => {
+        try {
+            const run = await runs.retrieve(runId);
+            const serialized = JSON.stringify(run.metadata ?? {});
+            if (run.metadata && serialized !== last) {
+                last = serialized;
+                onMetadata(run.metadata);
+            }
+        } catch (error) {
+            console.warn('[Trigger.dev] Failed to read run metadata:', error);
+        }
+    }, 1000);
+    return () => clearInterval(timer);
+}
+
+/**
+ * Turn a server-relative URL (e.g. a file in /public) into an absolute one
+ * that Trigger.dev and Transloadit can fetch
+ */
+export function toAbsoluteUrl(url: string): string {
+    return url.startsWith('/') ? `${getBaseUrl()}${url}` : url;
+}
+
+/**
+ * Parse an extract-frame timestamp ("12.5", "01:30", "1:02:03" or "50%").
+ * Percentages resolve to seconds when the video duration is known,
+ * otherwise they are returned as-is for count-based extraction.
+ */
+export function parseTimestamp(
+    timestamp: string,
+    videoDuration?: number
+): { seconds: number } | { percent: number } {
+    if (timestamp.includes('%')) {
+        const percent = parseFloat(timestamp) || 0;
+        if (videoDuration && videoDuration > 0) {
+            return { seconds: Math.round((percent / 100) * videoDuration) };
+        }
+        return { percent };
+    }
+
+    if (timestamp.includes(':')) {
+        const parts = timestamp.split(':').map(Number);
+        if (parts.length === 3) {
+            return { seconds: parts[0] * 3600 + parts[1] * 60 + parts[2] };
+        }
+        if (parts.length === 2) {
+            return { seconds: parts[0] * 60 + parts[1] };
+        }
+        return { seconds: 0 };
+    }
+
+    return { seconds: parseFloat(timestamp) || 0 };
+}
@@ -0,0 +1,36 @@
+import { TextNodeData } from '@/types/nodes';
+import { TEMPLATE_VARIABLE_HANDLE_PREFIX, getTemplateVariables, renderTemplate } from '../templates';
+import { NodeExecutor } from './types';
+
+export const textExecutor: NodeExecutor<TextNodeData> = {
+    // Values wired into var:<name> handles, by name, and the text they render
+    // into — so the NodeResult input records exactly what the node emitted
+    resolveInputs: (connected, node) => {
+        const variables: Record<string, unknown> = {};
+        connected.forEach(({ handle, value }) => {
+            if (handle.startsWith(TEMPLATE_VARIABLE_HANDLE_PREFIX)) {
+                variables[handle.slice(TEMPLATE_VARIABLE_HANDLE_PREFIX.length)] = value;
+            }
+        });
+
+        return { variables, text: renderTemplate(node.data.text || '', variables).text };
+    },
+
+    validate: (node, inputs) => {
+        const variables = (inputs.variables ?? {}) as Record<string, unknown>;
+        const missing = getTemplateVariables(node.data.text).filter(name => variables[name] == null);
+        if (missing.length > 0) {
+            throw new Error(`No value for ${missing.map(name => `{{${name}}}`).join(', ')}; connect an input to each variable`);
+        }
+    },
+
+    run: async (node, inputs) => {
+        const text = (inputs.text as string) || '';
+        return node.data.splitLines ? splitLines(text) : text;
+    },
+};
+
+// A list with one item per non-empty line, trimmed
+function splitLines(text: string): string[] {
+    return text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+}
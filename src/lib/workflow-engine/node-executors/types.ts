@@ -0,0 +1,74 @@
+import { Node } from '@xyflow/react';
+import { ChatMessage, WorkflowNodeData } from '@/types/nodes';
+import type { LLMUsage } from '@/lib/llm/types';
+import type { Provider } from '../concurrency';
+
+/**
+ * A value wired into one of a node's input handles
+ */
+export interface ConnectedInput {
+    handle: string;
+    sourceId: string;
+    value: unknown;
+}
+
+/**
+ * Run-level information available to every node executor
+ */
+export interface NodeExecutionContext {
+    runId: string;
+    workflowId: string;
+    userId: string;
+    // Aborted when the run is cancelled or the attempt times out
+    signal: AbortSignal;
+    // Time allowed for this attempt, from the node's retry policy
+    timeoutMs: number;
+    // Records the Trigger.dev run backing this node so it can be cancelled
+    onTriggerRun: (triggerRunId: string) => Promise<void>;
+    // Records tokens spent by an LLM request, for usage and cost accounting
+    onUsage: (usage: LLMUsage) => void;
+    // Reports the text a streaming node has produced so far
+    onPartialOutput: (text: string) => void;
+}
+
+/**
+ * Everything the workflow engine needs to know to execute one node type.
+ * Both the execute API route and WorkflowExecutor dispatch through these.
+ */
+export interface NodeExecutor<TData extends WorkflowNodeData = WorkflowNodeData> {
+    /**
+     * Map the values connected to this node's handles onto its input record.
+     * Defaults to one value per handle (last connection wins), with variadic
+     * inputs from NODE_CONFIG collected into an ordered list.
+     */
+    resolveInputs?: (connected: ConnectedInput[], node: Node<TData>) => Record<string, unknown>;
+
+    /**
+     * Node data fields that affect the output. Together with the node type and
+     * resolved inputs they form the cache key; node types without it are never cached.
+     */
+    cacheFields?: (node: Node<TData>) => Record<string, unknown>;
+
+    /**
+     * External provider this node calls, so the executor can cap its concurrency.
+     * Executors should throw RateLimitError when that provider answers 429.
+     */
+    provider?: (node: Node<TData>) => Provider | null;
+
+    /**
+     * Throw a descriptive error when the node cannot run with these inputs
+     */
+    validate?: (node: Node<TData>, inputs: Record<string, unknown>) => void;
+
+    /**
+     * Produce the node's output
+     */
+    run: (node: Node<TData>, inputs: Record<string, unknown>, context: NodeExecutionContext) => Promise<unknown>;
+
+    /**
+     * The conversation a chat node holds once `output` is its reply, or null
+     * when the node isn't chatting. Recorded with the result so run history
+     * can restore it.
+     */
+    conversation?: (node: Node<TData>, inputs: Record<string, unknown>, output: unknown) => ChatMessage[] | null;
+}
@@ -0,0 +1,36 @@
+import { UploadImageNodeData, UploadVideoNodeData } from '@/types/nodes';
+import { NodeExecutor } from './types';
+import { toAbsoluteUrl } from './shared';
+import { getImageUrls, getVideoUrl } from '../uploaded-media';
+
+export const uploadImageExecutor: NodeExecutor<UploadImageNodeData> = {
+    validate: (node) => {
+        const imageUrls = getImageUrls(node.data);
+        if (imageUrls.length === 0) {
+            throw new Error('No image uploaded');
+        }
+        if (imageUrls.some(url => url.startsWith('blob:'))) {
+            throw new Error('Image upload incomplete: The image was not uploaded to the server. Please re-upload the image before running the workflow.');
+        }
+    },
+
+    // Several uploaded images make a list, run once per image downstream
+    run: async (node) => {
+        const imageUrls = getImageUrls(node.data).map(toAbsoluteUrl);
+        return imageUrls.length > 1 ? imageUrls : imageUrls[0];
+    },
+};
+
+export const uploadVideoExecutor: NodeExecutor<UploadVideoNodeData> = {
+    validate: (node) => {
+        const videoUrl = getVideoUrl(node.data);
+        if (!videoUrl) {
+            throw new Error('No video uploaded');
+        }
+        if (videoUrl.startsWith('blob:')) {
+            throw new Error('Video upload incomplete: The video was not uploaded to the server. Please re-upload the video before running the workflow.');
+        }
+    },
+
+    run: async (node) => toAbsoluteUrl(getVideoUrl(node.data)),
+};
@@ -0,0 +1,45 @@
+// Text an LLM node has streamed so far, reported by node executors through
+// NodeExecutionContext.onPartialOutput. Kept in NodeResult.partialOutput for
+// clients following the run by polling, and emitted as node-output events.
+
+const SAVE_INTERVAL_MS = 300;
+
+/**
+ * Throttles a node's streamed text to one save every SAVE_INTERVAL_MS
+ */
+export class PartialOutputWriter {
+    private latest: string | null = null;
+    private saved: string | null = null;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private pending: Promise<void> = Promise.resolve();
+
+    constructor(private readonly save: (text: string) => Promise<void>) {}
+
+    write(text: string): void {
+        this.latest = text;
+        if (!this.timer) {
+            this.timer = setTimeout(() => this.flush(), SAVE_INTERVAL_MS);
+        }
+    }
+
+    /**
+     * Drop unsaved text and wait for a save in flight, so it can't land after
+     * the node's final result
+     */
+    async close(): Promise<void> {
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = null;
+        await this.pending;
+    }
+
+    private flush(): void {
+        this.timer = null;
+        const text = this.latest;
+        if (text === null || text === this.saved) return;
+
+        this.saved = text;
+        this.pending = this.pending
+            .then(() => this.save(text))
+            .catch(error => console.warn('[Executor] Failed to save partial output:', error));
+    }
+}
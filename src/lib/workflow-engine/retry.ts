@@ -0,0 +1,75 @@
+import { BaseNodeData, RetryBackoff } from '@/types/nodes';
+import { RunCancelledError } from './cancellation';
+
+export interface RetryPolicy {
+    retries: number;
+    timeoutMs: number;
+    backoff: RetryBackoff;
+}
+
+// No retries unless a node asks for them: a retried LLM node pays for every attempt.
+// 120s per attempt stays safely under Vercel's 300s function limit
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    retries: 0,
+    timeoutMs: 120000,
+    backoff: { strategy: 'exponential', delayMs: 1000 },
+};
+
+/**
+ * One execution attempt of a node, recorded on NodeResult.attempts
+ */
+export interface NodeAttempt {
+    attempt: number;
+    startedAt: string;
+    duration: number;
+    error?: string;
+}
+
+/**
+ * Thrown when a single node attempt runs longer than its timeoutMs
+ */
+export class NodeTimeoutError extends Error {
+    constructor(timeoutMs: number) {
+        super(`Node timed out after ${timeoutMs / 1000}s`);
+        this.name = 'NodeTimeoutError';
+    }
+}
+
+/**
+ * Merge a node's execution settings over the defaults
+ */
+export function getRetryPolicy(data: BaseNodeData): RetryPolicy {
+    return {
+        retries: Math.max(0, Math.floor(data.retries ?? DEFAULT_RETRY_POLICY.retries)),
+        timeoutMs: data.timeoutMs && data.timeoutMs > 0 ? data.timeoutMs : DEFAULT_RETRY_POLICY.timeoutMs,
+        backoff: data.backoff ?? DEFAULT_RETRY_POLICY.backoff,
+    };
+}
+
+/**
+ * Delay before retry number `retry` (1 for the first retry)
+ */
+export function getBackoffDelay(backoff: RetryBackoff, retry: number): number {
+    return backoff.strategy === 'exponential'
+        ? backoff.delayMs * 2 ** (retry - 1)
+        : backoff.delayMs;
+}
+
+/**
+ * Wait between attempts, giving up early if the run is cancelled
+ */
+export function sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal.aborted) return reject(new RunCancelledError());
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new RunCancelledError());
+        };
+        const timer = setTimeout(() => {
+            signal.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal.addEventListener('abort', onAbort, { once: true });
+    });
+}
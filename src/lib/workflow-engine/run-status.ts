@@ -0,0 +1,142 @@
+import type { ChatMessage } from '@/types/nodes';
+import { ExecutionEvent, NodeExecutionResult, NodeItemResult, RunStatus, fromStoredOutput } from './events';
+
+type NodeResultStatus = 'PENDING' | 'RUNNING' | 'SUCCESS' | 'FAILED' | 'SKIPPED';
+
+// Shape returned by GET /api/workflows/[id]/runs/[runId]
+export interface RunSnapshot {
+    id: string;
+    workflowId: string;
+    status: RunStatus | 'RUNNING';
+    duration: number | null;
+    error: string | null;
+    nodeResults: {
+        nodeId: string;
+        status: NodeResultStatus;
+        output: unknown;
+        partialOutput: string | null;
+        messages: ChatMessage[] | null;
+        items: NodeItemResult[] | null;
+        error: string | null;
+        duration: number | null;
+        cacheHit: boolean;
+    }[];
+}
+
+/**
+ * Poll a run until it finishes, turning each NodeResult change into the same
+ * events the streaming execute route emits. Used for background runs and to
+ * reattach to a run after the editor is reopened.
+ */
+export async function followRun(
+    workflowId: string,
+    runId: string,
+    onEvent: (event: ExecutionEvent) => void,
+    options: { intervalMs?: number; signal?: AbortSignal } = {}
+): Promise<void> {
+    const { intervalMs = 1000, signal } = options;
+    const seen = new Map<string, NodeResultStatus>();
+    const streamed = new Map<string, string>();
+
+    while (!signal?.aborted) {
+        // Network hiccups are retried on the next tick
+        const response = await fetch(`/api/workflows/${workflowId}/runs/${runId}`, { signal }).catch(() => null);
+
+        if (response?.status === 404) {
+            throw new Error('Run not found');
+        }
+
+        if (response?.ok) {
+            const { run } = await response.json() as { run: RunSnapshot };
+
+            run.nodeResults.forEach(result => {
+                if (seen.get(result.nodeId) !== result.status) {
+                    seen.set(result.nodeId, result.status);
+
+                    const event = toNodeEvent(result);
+                    if (event) onEvent(event);
+                }
+
+                // Text a running LLM node has streamed since the last poll
+                if (result.status === 'RUNNING' && result.partialOutput
+                    && streamed.get(result.nodeId) !== result.partialOutput) {
+                    streamed.set(result.nodeId, result.partialOutput);
+                    onEvent({ type: 'node-output', nodeId: result.nodeId, text: result.partialOutput });
+                }
+            });
+
+            if (run.status !== 'RUNNING') {
+                onEvent(toFinalEvent(run));
+                return;
+            }
+        }
+
+        await new Promise(resolve => setTimeout(resolve, intervalMs));
+    }
+}
+
+function toNodeEvent(result: RunSnapshot['nodeResults'][number]): ExecutionEvent | null {
+    const duration = result.duration ?? 0;
+
+    switch (result.status) {
+        case 'RUNNING':
+            return { type: 'node-started', nodeId: result.nodeId };
+        case 'SUCCESS':
+            return {
+                type: 'node-completed',
+                nodeId: result.nodeId,
+                output: fromStoredOutput(result.output),
+                duration,
+                cacheHit: result.cacheHit,
+                messages: result.messages ?? undefined,
+            };
+        case 'FAILED':
+            return { type: 'node-failed', nodeId: result.nodeId, error: result.error || 'Unknown error', duration };
+        case 'SKIPPED':
+            return { type: 'node-skipped', nodeId: result.nodeId, reason: result.error || 'Skipped' };
+        default:
+            return null;
+    }
+}
+
+function toFinalEvent(run: RunSnapshot): ExecutionEvent {
+    // A FAILED run with an error means the executor itself crashed
+    if (run.status === 'FAILED' && run.error) {
+        return { type: 'run-failed', error: run.error };
+    }
+
+    const results: NodeExecutionResult[] = run.nodeResults
+        .filter(r => r.status === 'SUCCESS' || r.status === 'FAILED' || r.status === 'SKIPPED')
+        .map(r => ({
+            nodeId: r.nodeId,
+            status: r.status as NodeExecutionResult['status'],
+            output: fromStoredOutput(r.output),
+            error: r.error ?? undefined,
+            duration: r.duration ?? 0,
+            cacheHit: r.cacheHit,
+            items: r.items ?? undefined,
+        }));
+
+    return {
+        type: 'run-completed',
+        runId: run.id,
+        workflowId: run.workflowId,
+        status: run.status as RunStatus,
+        results,
+        layerResults: [],
+        duration: run.duration ?? 0,
+    };
+}
+
+// Window event asking the canvas to re-run a node and its descendants,
+// reusing upstream outputs from sourceRunId (default: latest finished run)
+export const RUN_FROM_NODE_EVENT = 'runFromNode';
+
+export interface RunFromNodeDetail {
+    nodeId: string;
+    sourceRunId?: string;
+}
+
+export function requestRunFromNode(nodeId: string, sourceRunId?: string): void {
+    window.dispatchEvent(new CustomEvent<RunFromNodeDetail>(RUN_FROM_NODE_EVENT, { detail: { nodeId, sourceRunId } }));
+}
@@ -0,0 +1,186 @@
+import { Node, Edge } from '@xyflow/react';
+import { WorkflowNodeData } from '@/types/nodes';
+import { scheduleInputsSchema } from '@/lib/validation/schemas';
+import { resolveRunVersion, toWorkflowGraph } from '@/lib/workflow-versions';
+import { CronError, getNextCronTime, getUpcomingCronTimes } from './cron';
+import { applyWorkflowInputs } from './workflow-inputs';
+import { describeBlockingIssues, getBlockingIssues } from './validation';
+import { WorkflowExecutor } from './executor';
+import type { BackgroundRunPayload } from './background';
+import prisma from '@/lib/db';
+
+// Scheduled runs. A tick — the Trigger.dev workflow-scheduler task every
+// minute, or the local runner when Trigger.dev is skipped — starts a FULL run
+// of the saved graph for each enabled WorkflowSchedule whose nextRunAt has
+// passed, recorded with triggerSource SCHEDULED.
+
+export const SCHEDULER_TICK_MS = 60_000;
+
+/**
+ * When a schedule should next run, or null if its expression or time zone
+ * can't be scheduled any more
+ */
+export function getNextRunAt(cron: string, timezone: string, after = new Date()): Date | null {
+    try {
+        return getNextCronTime(cron, after, timezone);
+    } catch (error) {
+        if (error instanceof CronError) return null;
+        throw error;
+    }
+}
+
+/**
+ * Check a schedule's expression, time zone and inputs against the saved
+ * workflow, throwing CronError or WorkflowInputError
+ */
+export function validateSchedule(
+    schedule: { cron: string; timezone: string; inputs?: Record<string, string> | null },
+    workflow: { nodes: unknown; edges: unknown }
+): void {
+    getNextCronTime(schedule.cron, new Date(), schedule.timezone);
+    if (schedule.inputs) {
+        applyWorkflowInputs(toWorkflowGraph<Node<WorkflowNodeData>, Edge>(workflow).nodes, schedule.inputs);
+    }
+}
+
+/**
+ * The inputs a schedule stored, read back from its Json column
+ */
+export function getScheduleInputs(stored: unknown): Record<string, string> | null {
+    return scheduleInputsSchema.nullable().parse(stored);
+}
+
+
+/**
+ * The next `count` times an enabled schedule will run
+ */
+export function getUpcomingRunTimes(
+    schedule: { cron: string; timezone: string; enabled: boolean },
+    count = 3,
+    after = new Date()
+): Date[] {
+    if (!schedule.enabled) return [];
+    try {
+        return getUpcomingCronTimes(schedule.cron, after, schedule.timezone, count);
+    } catch (error) {
+        if (error instanceof CronError) return [];
+        throw error;
+    }
+}
+
+/**
+ * Start a run for every schedule that is due, handing each to `start`.
+ * A schedule's nextRunAt moves on before its run starts, so overlapping
+ * ticks never start the same run twice; times missed while no tick ran
+ * collapse into a single run. Resolves to the IDs of the runs started.
+ */
+export async function runDueSchedules(
+    start: (payload: BackgroundRunPayload) => Promise<void>,
+    now = new Date()
+): Promise<string[]> {
+    const due = await prisma.workflowSchedule.findMany({
+        where: { enabled: true, nextRunAt: { lte: now } },
+        include: { workflow: { select: { nodes: true, edges: true } } },
+    });
+
+    const runIds: string[] = [];
+    for (const schedule of due) {
+        // Another tick that got here first has already moved nextRunAt on
+        const claimed = await prisma.workflowSchedule.updateMany({
+            where: { id: schedule.id, nextRunAt: schedule.nextRunAt },
+            data: { nextRunAt: getNextRunAt(schedule.cron, schedule.timezone, now), lastRunAt: now },
+        });
+        if (claimed.count === 0) continue;
+
+        try {
+            runIds.push(await startScheduledRun(schedule, start));
+        } catch (error) {
+            console.error(`[Scheduler] Schedule ${schedule.id} failed to start its run:`, error);
+        }
+    }
+    return runIds;
+}
+
+/**
+ * Tick every SCHEDULER_TICK_MS in this process. Used when runs don't go
+ * through Trigger.dev, so `next dev` runs schedules on its own.
+ */
+export function startLocalScheduler(): void {
+    // Dev server reloads evaluate this module again; keep a single interval
+    const state = globalThis as typeof globalThis & { workflowSchedulerStarted?: boolean };
+    if (state.workflowSchedulerStarted) return;
+    state.workflowSchedulerStarted = true;
+
+    let ticking = false;
+    setInterval(async () => {
+        if (ticking) return;
+        ticking = true;
+        try {
+            await runDueSchedules(runInProcess);
+        } catch (error) {
+            console.error('[Scheduler] Tick failed:', error);
+        } finally {
+            ticking = false;
+        }
+    }, SCHEDULER_TICK_MS);
+    console.log('[Scheduler] Local scheduler started');
+}
+
+async function startScheduledRun(
+    schedule: {
+        id: string;
+        workflowId: string;
+        userId: string;
+        inputs: unknown;
+        workflow: { nodes: unknown; edges: unknown };
+    },
+    start: (payload: BackgroundRunPayload) => Promise<void>
+): Promise<string> {
+    const { nodes: workflowNodes, edges } = toWorkflowGraph<Node<WorkflowNodeData>, Edge>(schedule.workflow);
+    const inputs = getScheduleInputs(schedule.inputs) ?? undefined;
+
+    const versionId = await resolveRunVersion({
+        workflowId: schedule.workflowId,
+        authorId: schedule.userId,
+        nodes: workflowNodes,
+        edges,
+    });
+    const executor = new WorkflowExecutor(workflowNodes, edges, schedule.workflowId, schedule.userId);
+    const runId = await executor.createRun('FULL', {
+        inputs,
+        versionId,
+        triggerSource: 'SCHEDULED',
+        scheduleId: schedule.id,
+    });
+
+    try {
+        // Inputs are checked again here: the workflow may have changed since they were saved
+        const nodes = inputs ? applyWorkflowInputs(workflowNodes, inputs) : workflowNodes;
+        // The check the execute route makes; nobody is at the canvas to fix a scheduled run
+        const blocking = getBlockingIssues(nodes, edges, nodes.map(n => n.id));
+        if (blocking.length > 0) {
+            throw new Error(describeBlockingIssues(blocking, nodes));
+        }
+        await start({ runId, workflowId: schedule.workflowId, userId: schedule.userId, nodes, edges, scope: 'FULL' });
+    } catch (error) {
+        // The failed run stays in the schedule's history
+        await prisma.workflowRun.update({
+            where: { id: runId },
+            data: {
+                status: 'FAILED',
+                error: error instanceof Error ? error.message : 'Failed to start scheduled run',
+                completedAt: new Date(),
+            },
+        });
+        throw error;
+    }
+    return runId;
+}
+
+// Local ticks execute runs here without waiting for them to finish
+async function runInProcess(payload: BackgroundRunPayload): Promise<void> {
+    const executor = new WorkflowExecutor(payload.nodes, payload.edges, payload.workflowId, payload.userId);
+    executor.execute(payload.scope, { runId: payload.runId }).catch(error => {
+        console.error(`[Scheduler] Run ${payload.runId} failed:`, error);
+    });
+}
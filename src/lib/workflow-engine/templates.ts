@@ -0,0 +1,38 @@
+// `{{name}}` placeholders in Prompt node text. Each variable gets a text
+// input handle `var:<name>`, and the node's output is its text with every
+// placeholder replaced by the value connected to that handle.
+
+export const TEMPLATE_VARIABLE_HANDLE_PREFIX = 'var:';
+
+// Names start with a letter or underscore; spaces inside the braces are allowed
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+
+/**
+ * Variable names used in a template, in order of first appearance
+ */
+export function getTemplateVariables(text: string | undefined): string[] {
+    if (!text) return [];
+    return [...new Set([...text.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]))];
+}
+
+/**
+ * Replace each placeholder with its value; non-string values are written as
+ * JSON. Placeholders without a value are left in place and listed in `missing`.
+ */
+export function renderTemplate(
+    text: string,
+    values: Record<string, unknown>
+): { text: string; missing: string[] } {
+    const missing = new Set<string>();
+
+    const rendered = text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+        const value = values[name];
+        if (value === undefined || value === null) {
+            missing.add(name);
+            return placeholder;
+        }
+        return typeof value === 'string' ? value : JSON.stringify(value);
+    });
+
+    return { text: rendered, missing: [...missing] };
+}
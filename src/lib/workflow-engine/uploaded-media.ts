@@ -0,0 +1,19 @@
+import { UploadImageNodeData, UploadVideoNodeData } from '@/types/nodes';
+
+// Where upload nodes keep their media, read the same way by the executors
+// and by validation.
+
+/**
+ * Every image an upload node holds; a single upload only sets `imageUrl`
+ */
+export function getImageUrls(data: UploadImageNodeData): string[] {
+    if (data.imageUrls && data.imageUrls.length > 0) return data.imageUrls;
+    return data.imageUrl ? [data.imageUrl] : [];
+}
+
+/**
+ * The video node stores the uploaded URL in `output` once Transloadit finishes
+ */
+export function getVideoUrl(data: UploadVideoNodeData): string {
+    return (typeof data.output === 'string' && data.output) || data.videoUrl || '';
+}
@@ -0,0 +1,27 @@
+import { LLMUsage, estimateCost } from '@/lib/llm';
+
+// LLM token usage, reported by node executors through NodeExecutionContext.onUsage,
+// summed per node and rolled up onto the run.
+
+export interface NodeUsage extends LLMUsage {
+    cost: number | null; // estimated USD; null when the model has no price
+}
+
+/**
+ * Sums the usage one node reports across its requests and attempts
+ */
+export class UsageMeter {
+    total: NodeUsage | null = null;
+
+    add(usage: LLMUsage): void {
+        const cost = estimateCost(usage);
+        const previous = this.total;
+
+        this.total = {
+            model: usage.model,
+            promptTokens: (previous?.promptTokens ?? 0) + usage.promptTokens,
+            completionTokens: (previous?.completionTokens ?? 0) + usage.completionTokens,
+            cost: previous && previous.cost === null ? null : cost === null ? null : (previous?.cost ?? 0) + cost,
+        };
+    }
+}
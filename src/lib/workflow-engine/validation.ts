@@ -1,5 +1,22 @@
 import { Node, Edge } from '@xyflow/react';
-import { WorkflowNodeData, NodeType, NODE_CONFIG, HandleType } from '@/types/nodes';
+import { WorkflowNodeData, NodeType, NODE_CONFIG, HandleType, HandleConfig, UploadImageNodeData, UploadVideoNodeData } from '@/types/nodes';
+import { supportsVision } from '@/lib/llm/providers';
+import { JSON_FIELD_HANDLE_PREFIX, getJsonSchemaFields, parseJsonSchema } from '@/lib/llm/json-output';
+import { TEMPLATE_VARIABLE_HANDLE_PREFIX, getTemplateVariables } from './templates';
+import { getImageUrls, getVideoUrl } from './uploaded-media';
+
+export interface ValidationIssue {
+    // Errors stop a run from starting; warnings are only shown
+    severity: 'error' | 'warning';
+    message: string;
+    nodeId?: string;
+    edgeId?: string;
+}
+
+export interface WorkflowValidationReport {
+    valid: boolean; // no errors
+    issues: ValidationIssue[];
+}
 
 /**
  * Validates if a connection between two nodes is valid
@@ -28,19 +45,13 @@ export function isValidConnection(
     }
 
     // Find handle configurations
-    const sourceOutput = sourceConfig.outputs.find(o => o.id === sourceHandle);
-    let targetInput = targetConfig.inputs.find(i => i.id === targetHandle);
+    const sourceOutput = getOutputHandles(sourceNode).find(o => o.id === sourceHandle);
+    const targetInput = getInputHandle(targetNode, targetHandle);
 
     if (!sourceOutput) {
         return { valid: false, reason: 'Invalid source handle' };
     }
 
-    // Special handling for LLM node's dynamic image inputs (image_1, image_2, etc.)
-    if (!targetInput && targetType === 'llm' && targetHandle.startsWith('image_')) {
-        // Treat dynamic image handles as image type inputs
-        targetInput = { id: targetHandle, type: 'image', label: 'Image' };
-    }
-
     if (!targetInput) {
         return { valid: false, reason: 'Invalid target handle' };
     }
@@ -58,8 +69,8 @@ export function isValidConnection(
         e => e.target === targetNode.id && e.targetHandle === targetHandle
     );
 
-    // Allow multiple connections only for 'images' handle on LLM node
-    if (existingConnection && targetHandle !== 'images') {
+    // Only a variadic input's own handle takes several connections
+    if (existingConnection && !(targetInput.variadic && targetInput.id === targetHandle)) {
         return { valid: false, reason: 'Input handle already has a connection' };
     }
 
@@ -71,6 +82,242 @@ export function isValidConnection(
     return { valid: true };
 }
 
+/**
+ * Check the whole graph before a run: unknown node types, edges to missing
+ * nodes or handles, type mismatches, cycles, required inputs left empty and
+ * uploads that never reached the server
+ */
+export function validateWorkflow(
+    nodes: Node<WorkflowNodeData>[],
+    edges: Edge[]
+): WorkflowValidationReport {
+    const issues: ValidationIssue[] = [];
+    const nodesById = new Map(nodes.map(n => [n.id, n]));
+
+    nodes.forEach(node => {
+        if (!NODE_CONFIG[node.type as NodeType]) {
+            issues.push({ severity: 'error', nodeId: node.id, message: `Unknown node type: ${node.type}` });
+        }
+    });
+
+    // Edges the executor can actually follow, by target node
+    const incoming = new Map<string, Edge[]>();
+
+    edges.forEach(edge => {
+        const source = nodesById.get(edge.source);
+        const target = nodesById.get(edge.target);
+
+        if (!source || !target) {
+            issues.push({
+                severity: 'warning',
+                edgeId: edge.id,
+                nodeId: source?.id ?? target?.id,
+                message: `Connection to a missing node (${!source ? edge.source : edge.target}) is ignored`,
+            });
+            return;
+        }
+
+        const sourceConfig = NODE_CONFIG[source.type as NodeType];
+        const targetConfig = NODE_CONFIG[target.type as NodeType];
+        if (!sourceConfig || !targetConfig) return;
+
+        const sourceOutputs = getOutputHandles(source);
+        const sourceOutput = edge.sourceHandle
+            ? sourceOutputs.find(o => o.id === edge.sourceHandle)
+            : sourceOutputs[0];
+        const targetInput = edge.targetHandle ? getInputHandle(target, edge.targetHandle) : undefined;
+
+        if (!sourceOutput || !targetInput) {
+            issues.push({
+                severity: 'error',
+                edgeId: edge.id,
+                nodeId: target.id,
+                message: `Connection from ${source.data.label || source.id} uses an unknown handle`,
+            });
+            return;
+        }
+
+        if (!isTypeCompatible(sourceOutput.type, targetInput.type)) {
+            issues.push({
+                severity: 'error',
+                edgeId: edge.id,
+                nodeId: target.id,
+                message: `Type mismatch: ${targetInput.label} expects ${targetInput.type} but receives ${sourceOutput.type}`,
+            });
+            return;
+        }
+
+        incoming.set(target.id, [...(incoming.get(target.id) ?? []), edge]);
+    });
+
+    // Kahn's algorithm leaves out every node in a cycle and everything after one
+    const sorted = new Set(topologicalSort(nodes, edges).flat());
+    nodes.forEach(node => {
+        if (!sorted.has(node.id)) {
+            issues.push({ severity: 'error', nodeId: node.id, message: 'Node is part of a cycle or depends on one' });
+        }
+    });
+
+    nodes.forEach(node => {
+        const config = NODE_CONFIG[node.type as NodeType];
+        if (!config) return;
+
+        const connected = incoming.get(node.id) ?? [];
+
+        getInputHandles(node).forEach(input => {
+            const handleEdges = connected.filter(e => e.targetHandle === input.id);
+
+            const answersConversation = input.id === 'user_message' && hasConversation(node);
+            if (input.required && handleEdges.length === 0 && !hasDataValue(node, input.dataField) && !answersConversation) {
+                issues.push({ severity: 'error', nodeId: node.id, message: `${input.label} is required` });
+            }
+            if (handleEdges.length > 1 && !input.variadic) {
+                issues.push({ severity: 'warning', nodeId: node.id, message: `${input.label} has several connections; only the last is used` });
+            }
+        });
+
+        if (node.type === 'llm' && typeof node.data.model === 'string' && !supportsVision(node.data.model)
+            && connected.some(e => getInputHandle(node, e.targetHandle ?? '')?.type === 'image')) {
+            issues.push({ severity: 'error', nodeId: node.id, message: 'The selected model is text-only; it can\'t take images' });
+        }
+
+        issues.push(...validateNodeValue(node));
+    });
+
+    return {
+        valid: !issues.some(issue => issue.severity === 'error'),
+        issues,
+    };
+}
+
+/**
+ * Errors on the nodes about to run, which stop the run from starting
+ */
+export function getBlockingIssues(
+    nodes: Node<WorkflowNodeData>[],
+    edges: Edge[],
+    nodeIdsInRun: Iterable<string>
+): ValidationIssue[] {
+    const inRun = new Set(nodeIdsInRun);
+    return validateWorkflow(nodes, edges).issues
+        .filter(issue => issue.severity === 'error' && issue.nodeId && inRun.has(issue.nodeId));
+}
+
+/**
+ * One line naming the first blocking issue, e.g. "Can't run: Prompt: Text is required (and 2 more)"
+ */
+export function describeBlockingIssues(issues: ValidationIssue[], nodes: Node<WorkflowNodeData>[]): string {
+    const node = nodes.find(n => n.id === issues[0]?.nodeId);
+    const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : '';
+    return `Can't run: ${node?.data.label || 'a node'}: ${issues[0]?.message}${more}`;
+}
+
+/**
+ * Input a target handle belongs to: the input with that id, or the variadic
+ * input whose added handles (e.g. the LLM node's image_<id>) it is one of
+ */
+export function getInputHandle(node: Node<WorkflowNodeData>, handleId: string): HandleConfig | undefined {
+    const inputs = getInputHandles(node);
+    return inputs.find(i => i.id === handleId)
+        ?? inputs.find(i => i.variadic && handleId.startsWith(i.variadic.prefix));
+}
+
+/**
+ * A node's input handles: NODE_CONFIG's, plus one required text handle per
+ * `{{variable}}` in a Prompt node's text
+ */
+export function getInputHandles(node: Node<WorkflowNodeData>): HandleConfig[] {
+    const inputs = NODE_CONFIG[node.type as NodeType]?.inputs ?? [];
+    if (node.type !== 'text') return inputs;
+
+    const text = typeof node.data.text === 'string' ? node.data.text : undefined;
+    return [
+        ...inputs,
+        ...getTemplateVariables(text).map((name): HandleConfig => ({
+            id: `${TEMPLATE_VARIABLE_HANDLE_PREFIX}${name}`,
+            type: 'text',
+            label: `{{${name}}}`,
+            required: true,
+        })),
+    ];
+}
+
+/**
+ * A node's output handles: NODE_CONFIG's, plus one text handle per top-level
+ * field for an LLM node in JSON output mode
+ */
+export function getOutputHandles(node: Node<WorkflowNodeData>): HandleConfig[] {
+    const outputs = NODE_CONFIG[node.type as NodeType]?.outputs ?? [];
+    if (node.type !== 'llm' || node.data.outputMode !== 'json') return outputs;
+
+    const schemaSource = typeof node.data.jsonSchema === 'string' ? node.data.jsonSchema : undefined;
+    return [
+        ...outputs,
+        ...getJsonSchemaFields(schemaSource).map((field): HandleConfig => ({
+            id: `${JSON_FIELD_HANDLE_PREFIX}${field}`,
+            type: 'text',
+            label: field,
+        })),
+    ];
+}
+
+// A chat-mode LLM node with turns answers those rather than its user message
+function hasConversation(node: Node<WorkflowNodeData>): boolean {
+    return node.type === 'llm' && node.data.chatMode === true
+        && Array.isArray(node.data.messages) && node.data.messages.length > 0;
+}
+
+function hasDataValue(node: Node<WorkflowNodeData>, field?: string): boolean {
+    const value = field ? node.data[field] : undefined;
+    return typeof value === 'string' && value.trim().length > 0;
+}
+
+/**
+ * Values the node supplies itself: uploads must have finished, prompts
+ * should have text unless they're filled in per run, and JSON output needs
+ * a usable schema
+ */
+function validateNodeValue(node: Node<WorkflowNodeData>): ValidationIssue[] {
+    const isRunInput = Boolean(node.data.workflowInput?.name);
+    const issue = (severity: ValidationIssue['severity'], message: string): ValidationIssue[] =>
+        [{ severity, nodeId: node.id, message }];
+
+    switch (node.type) {
+        case 'text':
+            return !hasDataValue(node, 'text') && !isRunInput ? issue('warning', 'Prompt is empty') : [];
+
+        case 'uploadImage':
+        case 'uploadVideo': {
+            const kind = node.type === 'uploadImage' ? 'image' : 'video';
+            const urls = node.type === 'uploadImage'
+                ? getImageUrls(node.data as UploadImageNodeData)
+                : [getVideoUrl(node.data as UploadVideoNodeData)];
+
+            if (urls.some(url => typeof url === 'string' && url.startsWith('blob:'))) {
+                return issue('error', `The ${kind} was not uploaded to the server; re-upload it`);
+            }
+            if (!urls.some(Boolean)) {
+                return isRunInput
+                    ? issue('warning', `No default ${kind}; supply one when running`)
+                    : issue('error', `No ${kind} uploaded`);
+            }
+            return [];
+        }
+
+        case 'llm':
+            if (node.data.outputMode !== 'json') return [];
+            try {
+                parseJsonSchema(typeof node.data.jsonSchema === 'string' ? node.data.jsonSchema : undefined);
+                return [];
+            } catch (error) {
+                return issue('error', (error as Error).message);
+            }
+
+        default:
+            return [];
+    }
+}
+
 /**
  * Check if source type is compatible with target type
  */
@@ -237,38 +484,3 @@ export function isValidDAG(nodes: Node<WorkflowNodeData>[], edges: Edge[]): bool
     // If not all nodes are in the sorted layers, there's a cycle
     return totalNodesInLayers === nodes.length;
 }
-
-/**
- * Get connected input values for a node
- */
-export function getConnectedInputs(
-    nodeId: string,
-    nodes: Node<WorkflowNodeData>[],
-    edges: Edge[]
-): Record<string, unknown> {
-    const inputs: Record<string, unknown> = {};
-
-    // Find all incoming edges
-    const incomingEdges = edges.filter(e => e.target === nodeId);
-
-    incomingEdges.forEach(edge => {
-        const sourceNode = nodes.find(n => n.id === edge.source);
-        if (sourceNode && edge.targetHandle) {
-            // Get output from source node
-            const output = sourceNode.data.output;
-
-            // Handle 'images' input specially - collect multiple
-            if (edge.targetHandle === 'images') {
-                const currentImages = (inputs['images'] as string[]) || [];
-                if (typeof output === 'string') {
-                    currentImages.push(output);
-                }
-                inputs['images'] = currentImages;
-            } else {
-                inputs[edge.targetHandle] = output;
-            }
-        }
-    });
-
-    return inputs;
-}
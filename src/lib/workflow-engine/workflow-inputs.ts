@@ -0,0 +1,71 @@
+import { Node } from '@xyflow/react';
+import { NodeType, WorkflowInputConfig, WorkflowNodeData } from '@/types/nodes';
+
+// Node types that can be marked as workflow inputs, and the data field a run value replaces
+export const WORKFLOW_INPUT_TARGETS: Partial<Record<NodeType, { field: string; type: WorkflowInputConfig['type'] }>> = {
+    text: { field: 'text', type: 'text' },
+    uploadImage: { field: 'imageUrl', type: 'image' },
+    uploadVideo: { field: 'videoUrl', type: 'video' },
+};
+
+export interface WorkflowInputDeclaration extends WorkflowInputConfig {
+    nodeId: string;
+}
+
+/**
+ * Thrown when run-time input values don't match the workflow's declared inputs
+ */
+export class WorkflowInputError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'WorkflowInputError';
+    }
+}
+
+/**
+ * Inputs declared by the nodes of a workflow
+ */
+export function getWorkflowInputs(nodes: Node<WorkflowNodeData>[]): WorkflowInputDeclaration[] {
+    return nodes
+        .filter(node => node.data?.workflowInput?.name && WORKFLOW_INPUT_TARGETS[node.type as NodeType])
+        .map(node => ({ nodeId: node.id, ...node.data.workflowInput! }));
+}
+
+/**
+ * Return copies of the nodes with run-time input values written over their data.
+ * The value also becomes the node's output, so nodes downstream of an input
+ * that isn't part of a partial run still see it.
+ */
+export function applyWorkflowInputs(
+    nodes: Node<WorkflowNodeData>[],
+    values: Record<string, string>
+): Node<WorkflowNodeData>[] {
+    const declared = getWorkflowInputs(nodes);
+
+    for (const [name, value] of Object.entries(values)) {
+        const input = declared.find(d => d.name === name);
+        if (!input) {
+            throw new WorkflowInputError(`Unknown workflow input "${name}"`);
+        }
+        if (input.type !== 'text' && !/^(https?:\/\/|\/)/.test(value)) {
+            throw new WorkflowInputError(`Workflow input "${name}" expects a URL to its ${input.type}`);
+        }
+    }
+
+    return nodes.map(node => {
+        const name = node.data?.workflowInput?.name;
+        const target = WORKFLOW_INPUT_TARGETS[node.type as NodeType];
+        if (!name || !target || !(name in values)) return node;
+
+        return {
+            ...node,
+            data: {
+                ...node.data,
+                [target.field]: values[name],
+                output: values[name],
+                // A run value replaces every image of a multi-image upload
+                ...(node.type === 'uploadImage' && { imageUrls: undefined }),
+            },
+        };
+    });
+}
@@ -0,0 +1,273 @@
+import { Node, Edge } from '@xyflow/react';
+import { NodeType, WorkflowNodeData } from '@/types/nodes';
+import { workflowExportSchema, WorkflowExportInput } from '@/lib/validation/schemas';
+
+// Workflow files written by Export and read by Import. Files from older
+// releases are migrated up to WORKFLOW_EXPORT_VERSION before validation.
+
+export const WORKFLOW_EXPORT_FORMAT = 'weavy-workflow';
+export const WORKFLOW_EXPORT_VERSION = 2;
+
+export type WorkflowExport = WorkflowExportInput;
+export type PortableWorkflow = WorkflowExport['workflow'];
+
+/**
+ * Thrown when a workflow file can't be read or written, with a message fit for the user
+ */
+export class WorkflowFileError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'WorkflowFileError';
+    }
+}
+
+// Node data fields holding uploaded media, which bundles carry along
+export const BUNDLED_MEDIA_FIELDS: Partial<Record<NodeType, string>> = {
+    uploadImage: 'imageUrl',
+    uploadVideo: 'videoUrl',
+};
+
+// Node data fields holding a list of uploaded media
+const BUNDLED_MEDIA_LIST_FIELDS: Partial<Record<NodeType, string>> = {
+    uploadImage: 'imageUrls',
+};
+
+type RawFile = Record<string, unknown>;
+
+// MIGRATIONS[n] turns a schema version n file into a version n + 1 file
+const MIGRATIONS: Record<number, (file: RawFile) => RawFile> = {
+    // 1.0.0 files: a string `version`, run state left on the nodes and an
+    // uploaded video's URL kept only in `output`
+    1: (file) => {
+        const workflow = (file.workflow ?? {}) as RawFile;
+        return {
+            format: WORKFLOW_EXPORT_FORMAT,
+            schemaVersion: 2,
+            exportedAt: typeof file.exportedAt === 'string' ? file.exportedAt : new Date().toISOString(),
+            workflow: {
+                name: typeof workflow.name === 'string' ? workflow.name : 'Imported Workflow',
+                nodes: Array.isArray(workflow.nodes)
+                    ? (workflow.nodes as Node<WorkflowNodeData>[]).map(toPortableNode)
+                    : workflow.nodes,
+                edges: workflow.edges,
+            },
+        };
+    },
+};
+
+/**
+ * Build the file Export writes for the current graph
+ */
+export function createWorkflowExport(workflow: {
+    name: string;
+    nodes: Node<WorkflowNodeData>[];
+    edges: Edge[];
+}): WorkflowExport {
+    return {
+        format: WORKFLOW_EXPORT_FORMAT,
+        schemaVersion: WORKFLOW_EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        workflow: {
+            name: workflow.name,
+            nodes: workflow.nodes.map(toPortableNode) as PortableWorkflow['nodes'],
+            edges: workflow.edges.map(toPortableEdge),
+        },
+    };
+}
+
+/**
+ * Migrate a parsed workflow file to the current schema version and validate it
+ */
+export function parseWorkflowExport(raw: unknown): WorkflowExport {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new WorkflowFileError('Not a workflow file');
+    }
+
+    let file = raw as RawFile;
+    if (file.format !== undefined && file.format !== WORKFLOW_EXPORT_FORMAT) {
+        throw new WorkflowFileError('Not a workflow file');
+    }
+
+    let version = getSchemaVersion(file);
+    if (version > WORKFLOW_EXPORT_VERSION) {
+        throw new WorkflowFileError(`This file needs a newer version of the app (schema version ${version})`);
+    }
+    try {
+        while (version < WORKFLOW_EXPORT_VERSION) {
+            file = MIGRATIONS[version](file);
+            version++;
+        }
+    } catch {
+        throw new WorkflowFileError(`Could not upgrade this file from schema version ${version}`);
+    }
+
+    const result = workflowExportSchema.safeParse(file);
+    if (!result.success) {
+        const issue = result.error.issues[0];
+        throw new WorkflowFileError(`Invalid workflow file at ${issue.path.join('.') || 'root'}: ${issue.message}`);
+    }
+    return result.data;
+}
+
+/**
+ * Give imported nodes and edges fresh IDs where they collide with IDs already
+ * in use (or repeat within the file), keeping edges attached to their nodes
+ */
+export function remapImportedIds(
+    workflow: PortableWorkflow,
+    existing: { nodes: { id: string }[]; edges: { id: string }[] } = { nodes: [], edges: [] }
+): PortableWorkflow {
+    const takenNodeIds = new Set(existing.nodes.map(n => n.id));
+    const takenEdgeIds = new Set(existing.edges.map(e => e.id));
+    const nodeIds = new Map<string, string>();
+
+    const nodes = workflow.nodes.map(node => {
+        const id = takenNodeIds.has(node.id) ? createId('node', takenNodeIds) : node.id;
+        takenNodeIds.add(id);
+        nodeIds.set(node.id, id);
+        return { ...node, id };
+    });
+
+    const edges = workflow.edges.map(edge => {
+        const id = takenEdgeIds.has(edge.id) ? createId('edge', takenEdgeIds) : edge.id;
+        takenEdgeIds.add(id);
+        return {
+            ...edge,
+            id,
+            source: nodeIds.get(edge.source) ?? edge.source,
+            target: nodeIds.get(edge.target) ?? edge.target,
+        };
+    });
+
+    return { ...workflow, nodes, edges };
+}
+
+/**
+ * Uploaded media URLs referenced by the graph, as a bundle would carry them
+ */
+export function getMediaUrls(nodes: PortableWorkflow['nodes']): string[] {
+    const urls = new Set<string>();
+    nodes.forEach(node => {
+        const data = node.data as Record<string, unknown>;
+        const field = BUNDLED_MEDIA_FIELDS[node.type];
+        const listField = BUNDLED_MEDIA_LIST_FIELDS[node.type];
+        const values = [field && data[field], listField && data[listField]].flat();
+        values.forEach(url => {
+            if (typeof url === 'string' && /^https?:\/\//.test(url)) urls.add(url);
+        });
+    });
+    return [...urls];
+}
+
+/**
+ * Point media fields (and outputs that carried the same URL) at new locations
+ */
+export function replaceMediaUrls(
+    nodes: PortableWorkflow['nodes'],
+    urls: Map<string, string>
+): PortableWorkflow['nodes'] {
+    return nodes.map(node => {
+        const field = BUNDLED_MEDIA_FIELDS[node.type];
+        if (!field) return node;
+
+        const data = node.data as Record<string, unknown>;
+        const replace = (value: unknown) => (typeof value === 'string' && urls.get(value)) || value;
+        const listField = BUNDLED_MEDIA_LIST_FIELDS[node.type];
+        const list = listField ? data[listField] : undefined;
+
+        return {
+            ...node,
+            data: {
+                ...data,
+                [field]: replace(data[field]),
+                ...(listField && Array.isArray(list) && { [listField]: list.map(replace) }),
+                // A multi-file upload's output is the list of its URLs
+                output: Array.isArray(data.output)
+                    ? data.output.map(replace)
+                    : data.output === data[field] ? replace(data.output) : data.output,
+            },
+        } as typeof node;
+    });
+}
+
+/**
+ * Save a workflow file through the browser's download prompt
+ */
+export function downloadWorkflowExport(file: WorkflowExport, suffix = ''): void {
+    const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${file.workflow.name.replace(/\s+/g, '-').toLowerCase() || 'workflow'}${suffix}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Export with uploaded media embedded, built by the bundle API
+ */
+export async function fetchWorkflowBundle(workflow: {
+    name: string;
+    nodes: Node<WorkflowNodeData>[];
+    edges: Edge[];
+}): Promise<WorkflowExport> {
+    const response = await fetch('/api/workflows/bundle', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(workflow),
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) throw new WorkflowFileError(result.error || 'Failed to bundle workflow');
+    return result;
+}
+
+/**
+ * Read a workflow file's contents through the import API, which migrates,
+ * validates and remaps it and re-uploads any bundled media
+ */
+export async function importWorkflowFile(content: string): Promise<PortableWorkflow> {
+    const response = await fetch('/api/workflows/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: content,
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) throw new WorkflowFileError(result.error || 'Failed to import workflow');
+    return result.workflow;
+}
+
+function getSchemaVersion(file: RawFile): number {
+    if (typeof file.schemaVersion === 'number') return file.schemaVersion;
+    // 1.0.0 files predate schemaVersion
+    if (typeof file.version === 'string' && file.workflow) return 1;
+    throw new WorkflowFileError('Not a workflow file');
+}
+
+// Run state stays behind; an uploaded video's URL moves from output to videoUrl
+function toPortableNode(node: Node<WorkflowNodeData>) {
+    const data: Record<string, unknown> = { ...node.data };
+    if (node.type === 'uploadVideo' && !data.videoUrl && typeof data.output === 'string') {
+        data.videoUrl = data.output;
+    }
+    delete data.status;
+    delete data.error;
+
+    return { id: node.id, type: node.type, position: node.position, data };
+}
+
+function toPortableEdge(edge: Edge) {
+    const { id, source, target, sourceHandle, targetHandle, type, animated, data } = edge;
+    return { id, source, target, sourceHandle, targetHandle, type, animated, data };
+}
+
+function createId(prefix: string, taken: Set<string>): string {
+    let id: string;
+    do {
+        id = `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+    } while (taken.has(id));
+    return id;
+}
@@ -0,0 +1,137 @@
+import prisma from '@/lib/db';
+import { stableStringify } from '@/lib/stable-json';
+
+// Graph snapshots stored as WorkflowVersion rows, one per save, plus the
+// diff used to compare two of them.
+
+interface GraphItem {
+    id: string;
+    [key: string]: unknown;
+}
+
+export interface WorkflowGraph<TNode extends GraphItem = GraphItem, TEdge extends GraphItem = GraphItem> {
+    nodes: TNode[];
+    edges: TEdge[];
+}
+
+export interface GraphItemDiff {
+    added: string[];
+    removed: string[];
+    changed: string[];
+}
+
+export interface WorkflowDiff {
+    nodes: GraphItemDiff;
+    edges: GraphItemDiff;
+}
+
+/**
+ * Read a graph out of the nodes and edges Json columns of a Workflow or
+ * WorkflowVersion row, typed as the caller's node and edge types; a column
+ * that doesn't hold an array reads as empty
+ */
+export function toWorkflowGraph<TNode extends GraphItem = GraphItem, TEdge extends GraphItem = GraphItem>(
+    stored: { nodes: unknown; edges: unknown }
+): WorkflowGraph<TNode, TEdge> {
+    return {
+        nodes: Array.isArray(stored.nodes) ? stored.nodes as TNode[] : [],
+        edges: Array.isArray(stored.edges) ? stored.edges as TEdge[] : [],
+    };
+}
+
+// Accepts the Prisma client or a transaction client
+type VersionStore = Pick<typeof prisma, 'workflow' | 'workflowVersion'>;
+
+/**
+ * Record the graph as the workflow's next version. Saves that don't change
+ * the graph (autosave after a run, moving nodes or the viewport) return the latest
+ * version instead of adding another.
+ */
+export async function snapshotWorkflow(
+    db: VersionStore,
+    params: WorkflowGraph & { workflowId: string; authorId: string; message?: string }
+) {
+    const latest = await db.workflowVersion.findFirst({
+        where: { workflowId: params.workflowId },
+        orderBy: { version: 'desc' },
+    });
+
+    if (latest && graphsEqual(toWorkflowGraph(latest), params)) {
+        return latest;
+    }
+
+    // Numbers come from the workflow's counter, so a save and a run (or two
+    // runs) snapshotting at the same moment never take the same one
+    const { versionCount } = await db.workflow.update({
+        where: { id: params.workflowId },
+        data: { versionCount: { increment: 1 } },
+        select: { versionCount: true },
+    });
+
+    return db.workflowVersion.create({
+        data: {
+            workflowId: params.workflowId,
+            authorId: params.authorId,
+            version: versionCount,
+            nodes: params.nodes as object[],
+            edges: params.edges as object[],
+            message: params.message,
+        },
+    });
+}
+
+/**
+ * The version matching the graph a run is about to execute. Unsaved edits
+ * get a snapshot of their own so the run always points at what it ran.
+ */
+export async function resolveRunVersion(
+    params: WorkflowGraph & { workflowId: string; authorId: string }
+): Promise<string> {
+    const version = await snapshotWorkflow(prisma, { ...params, message: 'Unsaved changes at run time' });
+    return version.id;
+}
+
+/**
+ * Nodes and edges added, removed or changed going from one graph to another
+ */
+export function diffWorkflowGraphs(from: WorkflowGraph, to: WorkflowGraph): WorkflowDiff {
+    return {
+        nodes: diffItems(from.nodes, to.nodes, normalizeNode),
+        edges: diffItems(from.edges, to.edges, normalizeEdge),
+    };
+}
+
+function graphsEqual(a: WorkflowGraph, b: WorkflowGraph): boolean {
+    const diff = diffWorkflowGraphs(a, b);
+    return [diff.nodes, diff.edges].every(d => !d.added.length && !d.removed.length && !d.changed.length);
+}
+
+function diffItems(
+    from: GraphItem[],
+    to: GraphItem[],
+    normalize: (item: GraphItem) => unknown
+): GraphItemDiff {
+    const before = new Map(from.map(item => [item.id, stableStringify(normalize(item))]));
+    const after = new Map(to.map(item => [item.id, stableStringify(normalize(item))]));
+
+    return {
+        added: [...after.keys()].filter(id => !before.has(id)),
+        removed: [...before.keys()].filter(id => !after.has(id)),
+        changed: [...after.keys()].filter(id => before.has(id) && before.get(id) !== after.get(id)),
+    };
+}
+
+// Layout (position, selection, measurements) and run state change constantly
+// without changing what the graph does, so moving a node isn't a new version
+function normalizeNode(node: GraphItem): unknown {
+    const settings = { ...(node.data as Record<string, unknown> | undefined) };
+    delete settings.status;
+    delete settings.output;
+    delete settings.error;
+    return { id: node.id, type: node.type, data: settings };
+}
+
+function normalizeEdge(edge: GraphItem): unknown {
+    const { id, source, target, sourceHandle, targetHandle } = edge;
+    return { id, source, target, sourceHandle, targetHandle };
+}
@@ -2,7 +2,8 @@ import { create } from 'zustand';
 import { persist, devtools } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
 import { Node, Edge, Connection, addEdge, applyNodeChanges, applyEdgeChanges, NodeChange, EdgeChange } from '@xyflow/react';
-import { WorkflowNodeData, NodeType, NODE_CONFIG } from '@/types/nodes';
+import { WorkflowNodeData, NodeType, NodeStatus, NODE_CONFIG, ChatMessage } from '@/types/nodes';
+import { DEFAULT_FAILURE_POLICY, ExecutionEvent, FailurePolicy, readExecutionEvents } from '@/lib/workflow-engine/events';
 import { getEdgeColor } from '@/lib/connector-colors';
 
 // History state for undo/redo
@@ -25,6 +26,8 @@ interface WorkflowState {
     // Execution state
     isExecuting: boolean;
     executingNodeIds: string[];
+    activeRunId: string | null;
+    failurePolicy: FailurePolicy;
 
     // History for undo/redo
     history: HistoryState[];
@@ -55,8 +58,15 @@ interface WorkflowState {
     // Execution actions
     setExecuting: (isExecuting: boolean) => void;
     setNodeExecuting: (nodeId: string, isExecuting: boolean) => void;
-    setNodeStatus: (nodeId: string, status: 'idle' | 'running' | 'success' | 'error', output?: unknown, error?: string) => void;
+    setNodeStatus: (nodeId: string, status: NodeStatus, output?: unknown, error?: string) => void;
     resetNodeStatuses: () => void;
+    setFailurePolicy: (policy: FailurePolicy) => void;
+    setActiveRunId: (runId: string | null) => void;
+    cancelRun: (runId?: string) => Promise<void>;
+    // Run one LLM node on its own, streaming its answer into `response`
+    runLLMNode: (nodeId: string) => Promise<void>;
+    // Add a user turn to a chat-mode LLM node's conversation and answer it
+    sendChatMessage: (nodeId: string, content: string) => Promise<void>;
 
     // History actions
     undo: () => void;
@@ -68,7 +78,8 @@ interface WorkflowState {
     // Workflow persistence
     createNewWorkflow: () => Promise<string>;
     duplicateWorkflow: () => Promise<string>;
-    saveWorkflow: () => Promise<void>;
+    // message describes the version recorded for this save
+    saveWorkflow: (message?: string) => Promise<void>;
     loadWorkflow: (id: string) => Promise<void>;
 
     // Utility
@@ -78,6 +89,11 @@ interface WorkflowState {
 
 const generateNodeId = () => `node_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
+// LLM nodes render their output from `response`; a node that ran over a list shows every item's answer
+const formatResponse = (output: unknown): string => Array.isArray(output)
+    ? output.map((item, index) => `${index + 1}. ${formatResponse(item)}`).join('\n\n')
+    : typeof output === 'string' ? output : JSON.stringify(output);
+
 const initialState = {
     workflowId: null,
     workflowName: 'Untitled Workflow',
@@ -87,6 +103,8 @@ const initialState = {
     selectedEdgeId: null,
     isExecuting: false,
     executingNodeIds: [],
+    activeRunId: null,
+    failurePolicy: DEFAULT_FAILURE_POLICY,
     history: [],
     historyIndex: -1,
 };
@@ -228,6 +246,7 @@ export const useWorkflowStore = create<WorkflowState>()(
                                         ...node.data,
                                         status,
                                         ...(output !== undefined && { output }),
+                                        ...(output !== undefined && node.type === 'llm' && { response: formatResponse(output) }),
                                         ...(error !== undefined && { error }),
                                     }
                                 }
@@ -246,6 +265,10 @@ export const useWorkflowStore = create<WorkflowState>()(
                     }));
                 },
 
+                setFailurePolicy: (policy) => set({ failurePolicy: policy }),
+
+                setActiveRunId: (runId) => set({ activeRunId: runId }),
+
                 saveToHistory: () => {
                     const { nodes, edges, history, historyIndex } = get();
                     const newHistory = history.slice(0, historyIndex + 1);
@@ -357,7 +380,7 @@ export const useWorkflowStore = create<WorkflowState>()(
                     }
                 },
 
-                saveWorkflow: async () => {
+                saveWorkflow: async (message) => {
                     try {
                         const { workflowId, workflowName, nodes, edges } = get();
 
@@ -385,6 +408,7 @@ export const useWorkflowStore = create<WorkflowState>()(
                                     name: workflowName,
                                     nodes,
                                     edges,
+                                    message,
                                 }),
                             });
                         }
@@ -394,6 +418,91 @@ export const useWorkflowStore = create<WorkflowState>()(
                     }
                 },
 
+                // Cancel a run (defaults to the one started from the canvas)
+                cancelRun: async (runId) => {
+                    const { workflowId, activeRunId } = get();
+                    const targetRunId = runId ?? activeRunId;
+                    if (!workflowId || !targetRunId) return;
+
+                    try {
+                        const response = await fetch(`/api/workflows/${workflowId}/runs/${targetRunId}/cancel`, {
+                            method: 'POST',
+                        });
+                        if (!response.ok) throw new Error('Failed to cancel run');
+                    } catch (error) {
+                        console.error('Error cancelling run:', error);
+                        throw error;
+                    }
+                },
+
+                runLLMNode: async (nodeId) => {
+                    const { nodes, edges, workflowId, updateNodeData } = get();
+                    updateNodeData(nodeId, { status: 'running', response: '' });
+
+                    try {
+                        const response = await fetch('/api/workflows/execute', {
+                            method: 'POST',
+                            headers: { 'Content-Type': 'application/json' },
+                            body: JSON.stringify({
+                                workflowId: workflowId || 'temp',
+                                nodes,
+                                edges,
+                                scope: 'SINGLE',
+                                nodeIds: [nodeId],
+                                // Streamed so the answer shows up as it is generated
+                                stream: true,
+                            }),
+                        });
+
+                        if (!response.ok) {
+                            const result = await response.json().catch(() => ({}));
+                            throw new Error(result.error || 'Execution failed');
+                        }
+
+                        let outcome: ExecutionEvent | null = null;
+                        await readExecutionEvents(response, (event) => {
+                            if (event.type === 'run-failed') throw new Error(event.error);
+                            if (!('nodeId' in event) || event.nodeId !== nodeId) return;
+
+                            if (event.type === 'node-output') {
+                                updateNodeData(nodeId, { response: event.text });
+                            } else if (event.type === 'node-completed' || event.type === 'node-failed') {
+                                outcome = event;
+                            }
+                        });
+
+                        const nodeResult = outcome as ExecutionEvent | null;
+                        if (nodeResult?.type !== 'node-completed') {
+                            throw new Error(nodeResult?.type === 'node-failed' ? nodeResult.error : 'Node execution failed');
+                        }
+                        updateNodeData(nodeId, {
+                            status: 'success',
+                            response: formatResponse(nodeResult.output) || 'No response generated',
+                            output: nodeResult.output,
+                            ...(nodeResult.messages && { messages: nodeResult.messages }),
+                        });
+                    } catch (error) {
+                        console.error('LLM execution failed:', error);
+                        updateNodeData(nodeId, {
+                            status: 'error',
+                            response: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                        });
+                    }
+                },
+
+                sendChatMessage: async (nodeId, content) => {
+                    const node = get().nodes.find((n) => n.id === nodeId);
+                    if (!node || !content.trim()) return;
+
+                    const messages = (node.data.messages as ChatMessage[] | undefined) ?? [];
+                    get().updateNodeData(nodeId, {
+                        chatMode: true,
+                        messages: [...messages, { role: 'user', content }],
+                    });
+                    get().saveToHistory();
+                    await get().runLLMNode(nodeId);
+                },
+
                 loadWorkflow: async (id: string) => {
                     try {
                         const response = await fetch(`/api/workflows/${id}`);
@@ -423,6 +532,7 @@ export const useWorkflowStore = create<WorkflowState>()(
                     workflowName: state.workflowName,
                     nodes: state.nodes,
                     edges: state.edges,
+                    failurePolicy: state.failurePolicy,
                 }),
             }
         ),
@@ -1,5 +1,9 @@
-import { task } from "@trigger.dev/sdk/v3";
+import { metadata, task } from "@trigger.dev/sdk/v3";
 import crypto from "crypto";
+import { LLMOutputError, LLMRequest, generateText } from "@/lib/llm";
+
+// Every task runs a single attempt: retries are configured per node and
+// handled by WorkflowExecutor
 
 // ============================================================
 // Transloadit Helper Functions
@@ -26,7 +30,8 @@ interface TransloaditResult {
 }
 
 async function runTransloaditAssembly(
-    steps: Record<string, unknown>
+    steps: Record<string, unknown>,
+    timeoutMs: number = 120000
 ): Promise<TransloaditResult> {
     const authKey = process.env.NEXT_PUBLIC_TRANSLOADIT_AUTH_KEY;
     const authSecret = process.env.TRANSLOADIT_AUTH_SECRET;
@@ -56,10 +61,10 @@ async function runTransloaditAssembly(
         throw new Error(`Transloadit assembly error: ${assembly.error} - ${assembly.message}`);
     }
 
-    // Poll for completion (max 120 seconds)
+    // Poll for completion (the node's timeout, 120 seconds by default)
     let result = assembly;
     const startTime = Date.now();
-    while (result.ok !== 'ASSEMBLY_COMPLETED' && Date.now() - startTime < 120000) {
+    while (result.ok !== 'ASSEMBLY_COMPLETED' && Date.now() - startTime < timeoutMs) {
         await new Promise(resolve => setTimeout(resolve, 1000));
         const pollResponse = await fetch(result.assembly_ssl_url);
         result = await pollResponse.json();
@@ -80,51 +85,17 @@ async function runTransloaditAssembly(
 // ============================================================
 export const llmTask = task({
     id: "llm-execution",
-    retry: { maxAttempts: 2 },
-    run: async (payload: {
-        prompt: string;
-        model?: string;
-        images?: string[];
-    }) => {
-        const modelId = payload.model || "groq:meta-llama/llama-4-scout-17b-16e-instruct";
-
-        // Route to Groq or Gemini
-        if (modelId.startsWith("groq:")) {
-            const Groq = (await import("groq-sdk")).default;
-            const apiKey = process.env.GROQ_API_KEY;
-            if (!apiKey) throw new Error("GROQ_API_KEY not set");
-
-            const groq = new Groq({ apiKey });
-            const completion = await groq.chat.completions.create({
-                model: modelId.replace("groq:", ""),
-                messages: [{ role: "user", content: payload.prompt }],
-                temperature: 0.7,
-                max_tokens: 4096,
-            });
-
-            return { text: completion.choices[0]?.message?.content || "" };
-        } else {
-            const { GoogleGenerativeAI } = await import("@google/generative-ai");
-            const apiKey = process.env.GOOGLE_GENERATIVE_AI_API_KEY || process.env.GOOGLE_AI_API_KEY;
-            if (!apiKey) throw new Error("GOOGLE_GENERATIVE_AI_API_KEY not set");
-
-            const genAI = new GoogleGenerativeAI(apiKey);
-            const model = genAI.getGenerativeModel({ model: modelId });
-
-            const parts: any[] = [{ text: payload.prompt }];
-            if (payload.images?.length) {
-                for (const img of payload.images) {
-                    const base64Match = img.match(/^data:(.+);base64,(.+)$/);
-                    if (base64Match) {
-                        parts.push({
-                            inlineData: { mimeType: base64Match[1], data: base64Match[2] },
-                        });
-                    }
-                }
+    retry: { maxAttempts: 1 },
+    run: async (payload: LLMRequest) => {
+        try {
+            // The streamed answer so far, for the workflow executor to pick up while it polls
+            return await generateText(payload, (text) => metadata.set("text", text));
+        } catch (error) {
+            // A failed run only reports its status; the tokens spent go back through metadata
+            if (error instanceof LLMOutputError) {
+                metadata.set("failure", { message: error.message, usage: { ...error.usage } });
             }
-
-            const result = await model.generateContent(parts);
-            return { text: result.response.text() };
+            throw error;
         }
     },
 });
@@ -134,13 +105,14 @@ export const llmTask = task({
 // ============================================================
 export const cropImageTask = task({
     id: "crop-image",
-    retry: { maxAttempts: 2 },
+    retry: { maxAttempts: 1 },
     run: async (payload: {
         imageUrl: string;
         x: number;
         y: number;
         width: number;
         height: number;
+        timeoutMs?: number;
     }) => {
         console.log(`[Crop Image] Processing: ${payload.imageUrl.substring(0, 60)}...`);
         console.log(`[Crop Image] Crop params: x=${payload.x}, y=${payload.y}, w=${payload.width}, h=${payload.height}`);
@@ -205,7 +177,7 @@ export const cropImageTask = task({
             // Poll for completion
             let result = assembly;
             const startTime = Date.now();
-            while (result.ok !== 'ASSEMBLY_COMPLETED' && Date.now() - startTime < 120000) {
+            while (result.ok !== 'ASSEMBLY_COMPLETED' && Date.now() - startTime < (payload.timeoutMs ?? 120000)) {
                 await new Promise(resolve => setTimeout(resolve, 1000));
                 const pollResponse = await fetch(result.assembly_ssl_url);
                 result = await pollResponse.json();
@@ -239,7 +211,7 @@ export const cropImageTask = task({
                 },
             };
 
-            const result = await runTransloaditAssembly(steps);
+            const result = await runTransloaditAssembly(steps, payload.timeoutMs);
             const resultUrl = result.results.cropped?.[0]?.ssl_url;
             if (!resultUrl) throw new Error('No result from Transloadit crop');
 
@@ -254,11 +226,12 @@ export const cropImageTask = task({
 // ============================================================
 export const extractFrameTask = task({
     id: "extract-frame",
-    retry: { maxAttempts: 2 },
+    retry: { maxAttempts: 1 },
     run: async (payload: {
         videoUrl: string;
         timestamp?: number;
         format?: string;
+        timeoutMs?: number;
     }) => {
         console.log(`[Extract Frame] Processing: ${payload.videoUrl.substring(0, 100)}...`);
         console.log(`[Extract Frame] Timestamp: ${payload.timestamp ?? 'not set'}, Format: ${payload.format || 'png'}`);
@@ -297,7 +270,7 @@ export const extractFrameTask = task({
 
         console.log(`[Extract Frame] Assembly steps:`, JSON.stringify(steps, null, 2));
 
-        const result = await runTransloaditAssembly(steps);
+        const result = await runTransloaditAssembly(steps, payload.timeoutMs);
 
         console.log(`[Extract Frame] Assembly completed. Result keys:`, Object.keys(result.results || {}));
 
@@ -325,7 +298,7 @@ export const extractFrameTask = task({
                     result: true,
                 },
             };
-            const fallbackResult = await runTransloaditAssembly(fallbackSteps);
+            const fallbackResult = await runTransloaditAssembly(fallbackSteps, payload.timeoutMs);
             frameUrl = fallbackResult.results?.thumbnail?.[0]?.ssl_url;
         }
 
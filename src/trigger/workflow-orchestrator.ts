@@ -0,0 +1,30 @@
+import { task } from "@trigger.dev/sdk/v3";
+import { WorkflowExecutor } from "@/lib/workflow-engine/executor";
+import type { BackgroundRunPayload } from "@/lib/workflow-engine/background";
+
+// ============================================================
+// Workflow Orchestrator Task - Executes a whole run in the background
+// The execute route creates the WorkflowRun and returns immediately;
+// progress is written to NodeResult rows as each node finishes.
+// ============================================================
+
+export const workflowOrchestratorTask = task({
+    id: "workflow-orchestrator",
+    maxDuration: 3600,
+    // Retrying would re-execute nodes that already succeeded into the same run
+    retry: { maxAttempts: 1 },
+    run: async (payload: BackgroundRunPayload) => {
+        const executor = new WorkflowExecutor(payload.nodes, payload.edges, payload.workflowId, payload.userId);
+
+        const summary = await executor.execute(payload.scope, {
+            runId: payload.runId,
+            nodeIds: payload.nodeIds,
+            sourceRunId: payload.sourceRunId,
+            failurePolicy: payload.failurePolicy,
+            forceRerun: payload.forceRerun,
+            concurrency: payload.concurrency,
+        });
+
+        return { status: summary.status, duration: summary.duration };
+    },
+});
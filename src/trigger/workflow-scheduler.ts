@@ -0,0 +1,23 @@
+import { schedules } from "@trigger.dev/sdk/v3";
+import { runDueSchedules } from "@/lib/workflow-engine/scheduler";
+import { workflowOrchestratorTask } from "./workflow-orchestrator";
+
+// ============================================================
+// Workflow Scheduler Task - Starts due WorkflowSchedule runs every minute
+// Each run is handed to the orchestrator task, so a slow workflow never
+// holds up the next tick.
+// ============================================================
+
+export const workflowSchedulerTask = schedules.task({
+    id: "workflow-scheduler",
+    cron: "* * * * *",
+    // A missed tick is picked up by the next one
+    retry: { maxAttempts: 1 },
+    run: async () => {
+        const runIds = await runDueSchedules(async (payload) => {
+            await workflowOrchestratorTask.trigger(payload);
+        });
+
+        return { started: runIds.length };
+    },
+});
@@ -10,7 +10,19 @@ export type NodeType =
 
 export type HandleType = 'text' | 'image' | 'video' | 'any';
 
-export type NodeStatus = 'idle' | 'running' | 'success' | 'error';
+export type NodeStatus = 'idle' | 'running' | 'success' | 'error' | 'skipped';
+
+// Marks a Text / Upload node whose value can be supplied when the workflow is run
+export interface WorkflowInputConfig {
+  name: string;
+  type: Exclude<HandleType, 'any'>;
+}
+
+// Delay between node retries: the same every time, or doubling after each attempt
+export interface RetryBackoff {
+  strategy: 'fixed' | 'exponential';
+  delayMs: number;
+}
 
 // Base node data interface
 // Index signature required for React Flow v12 compatibility with Record<string, unknown>
@@ -20,17 +32,24 @@ export interface BaseNodeData {
   output?: unknown;
   error?: string;
   isLocked?: boolean;
+  // Execution settings, enforced by WorkflowExecutor (defaults in workflow-engine/retry.ts)
+  retries?: number;
+  timeoutMs?: number; // per attempt
+  backoff?: RetryBackoff;
+  workflowInput?: WorkflowInputConfig;
   [key: string]: unknown; // Index signature for React Flow compatibility
 }
 
 // Text Node
 export interface TextNodeData extends BaseNodeData {
   text: string;
+  splitLines?: boolean; // output a list of the text's non-empty lines
 }
 
 // Upload Image Node
 export interface UploadImageNodeData extends BaseNodeData {
-  imageUrl?: string;
+  imageUrl?: string; // the first image when several were uploaded
+  imageUrls?: string[]; // every uploaded image, making the output a list
   fileName?: string;
 }
 
@@ -41,6 +60,12 @@ export interface UploadVideoNodeData extends BaseNodeData {
 }
 
 // LLM Node
+// One turn of a chat-mode LLM node's conversation
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
 export interface LLMNodeData extends BaseNodeData {
   model: string;
   systemPrompt?: string;
@@ -49,7 +74,18 @@ export interface LLMNodeData extends BaseNodeData {
   imageInputIds?: string[]; // IDs for dynamically added image inputs
   response?: string;
   temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  stopSequences?: string[]; // Up to 4; generation ends before any of them
   thinking?: boolean;
+  // 'json' answers with an object matching jsonSchema (JSON Schema source)
+  // and adds a text output handle per top-level field
+  outputMode?: 'text' | 'json';
+  jsonSchema?: string;
+  // Chat mode keeps the conversation in `messages`; a run answers its last
+  // user turn and outputs the reply
+  chatMode?: boolean;
+  messages?: ChatMessage[];
 }
 
 // Crop Image Node
@@ -86,12 +122,22 @@ export type WorkflowNodeData =
   | CropImageNodeData
   | ExtractFrameNodeData;
 
+// Variadic input: every connection is gathered into one ordered list. Besides
+// the input's own handle, a node can add handles `${prefix}<id>`, listed in
+// the order they appear in data[handlesField].
+export interface VariadicHandleConfig {
+  prefix: string;
+  handlesField: string;
+}
+
 // Handle configuration
 export interface HandleConfig {
   id: string;
   type: HandleType;
   label: string;
   required?: boolean;
+  dataField?: string; // node data field used when nothing is connected
+  variadic?: VariadicHandleConfig;
 }
 
 // Node configuration
@@ -131,9 +177,9 @@ export const NODE_CONFIG: Record<NodeType, NodeConfig> = {
     color: '#10b981', // green
     icon: 'Bot',
     inputs: [
-      { id: 'system_prompt', type: 'text', label: 'System Prompt' },
-      { id: 'user_message', type: 'text', label: 'User Message', required: true },
-      { id: 'images', type: 'image', label: 'Images' },
+      { id: 'system_prompt', type: 'text', label: 'System Prompt', dataField: 'systemPrompt' },
+      { id: 'user_message', type: 'text', label: 'User Message', required: true, dataField: 'userMessage' },
+      { id: 'images', type: 'image', label: 'Images', variadic: { prefix: 'image_', handlesField: 'imageInputIds' } },
     ],
     outputs: [{ id: 'output', type: 'text', label: 'Response' }],
   },
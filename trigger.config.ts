@@ -1,4 +1,5 @@
 import { defineConfig } from "@trigger.dev/sdk/v3";
+import { prismaExtension } from "@trigger.dev/build/extensions/prisma";
 
 export default defineConfig({
     project: "proj_rdsuxydrzxxorhlynnfd",
@@ -15,4 +16,8 @@ export default defineConfig({
         },
     },
     dirs: ["./src/trigger"],
+    build: {
+        // The workflow orchestrator task writes run progress through Prisma
+        extensions: [prismaExtension({ mode: "legacy", schema: "prisma/schema.prisma" })],
+    },
 });